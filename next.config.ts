@@ -1,40 +1,71 @@
 import type { NextConfig } from "next";
+import { API_CONFIG } from "./src/config/api";
+import { DEVICE_SIZES, IMAGE_SIZES, PROXY_QUALITIES } from "./src/lib/imageProxyUrl";
+
+// The only remote hosts next/image fetches from itself: generated avatars and the API. Other
+// images go through the signed /api/image-proxy, which refuses internal addresses.
+const apiUrl = new URL(API_CONFIG.BASE_URL);
+
+// Origins allowed to call /api/* from the browser, comma separated (e.g. set per environment in
+// .env.production). The app itself is same-origin and needs none; `*` allows any origin.
+const corsAllowedOrigins = (process.env.CORS_ALLOWED_ORIGINS ?? '')
+  .split(',')
+  .map(origin => origin.trim().replace(/\/$/, ''))
+  .filter(Boolean);
+
+const CORS_HEADERS = [
+  { key: 'Access-Control-Allow-Methods', value: 'GET, POST, PUT, DELETE, OPTIONS' },
+  { key: 'Access-Control-Allow-Headers', value: 'Content-Type, Authorization' },
+];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
 
 const nextConfig: NextConfig = {
   images: {
     remotePatterns: [
-      // Add wildcard pattern for any external domain
       {
         protocol: 'https',
-        hostname: '**',
+        hostname: 'ui-avatars.com',
         port: '',
-        pathname: '/**',
+        pathname: '/api/**',
       },
       {
-        protocol: 'http',
-        hostname: '**',
-        port: '',
+        protocol: apiUrl.protocol === 'https:' ? 'https' : 'http',
+        hostname: apiUrl.hostname,
+        port: apiUrl.port,
         pathname: '/**',
       },
     ],
+    // Shared with the image proxy, so SafeImage's srcset only asks for sizes it renders
+    deviceSizes: DEVICE_SIZES,
+    imageSizes: IMAGE_SIZES,
+    qualities: PROXY_QUALITIES,
     // Add these options to handle CORS better
     dangerouslyAllowSVG: true,
     contentSecurityPolicy: "default-src 'self'; script-src 'none'; sandbox;",
     // Enable unoptimized images for external sources
     unoptimized: false,
   },
-  // Add headers for CORS
+  // CORS headers only for configured origins: each one gets a rule matching its Origin header,
+  // so the allowed origin is echoed back rather than a wildcard
   async headers() {
-    return [
-      {
+    if (corsAllowedOrigins.includes('*')) {
+      return [{
         source: '/api/:path*',
-        headers: [
-          { key: 'Access-Control-Allow-Origin', value: '*' },
-          { key: 'Access-Control-Allow-Methods', value: 'GET, POST, PUT, DELETE, OPTIONS' },
-          { key: 'Access-Control-Allow-Headers', value: 'Content-Type, Authorization' },
-        ],
-      },
-    ];
+        headers: [{ key: 'Access-Control-Allow-Origin', value: '*' }, ...CORS_HEADERS],
+      }];
+    }
+    return corsAllowedOrigins.map(origin => ({
+      source: '/api/:path*',
+      has: [{ type: 'header' as const, key: 'origin', value: escapeRegExp(origin) }],
+      headers: [
+        { key: 'Access-Control-Allow-Origin', value: origin },
+        { key: 'Vary', value: 'Origin' },
+        ...CORS_HEADERS,
+      ],
+    }));
   },
 };
 
@@ -1,4 +1,250 @@
+import type { IncomingMessage } from 'node:http';
 import { NextRequest, NextResponse } from 'next/server';
+import { IMAGE_PROXY_CONFIG } from '@/config/imageProxy';
+import { contentETag, readPlaceholder, readVariant, variantKey, writePlaceholder, writeVariant } from '@/lib/imageCache';
+import { SNIFF_BYTES, sniffImageType } from '@/lib/imageSniffing';
+import { TransformOptions, computePlaceholder, parseTransformParams, transformImage } from '@/lib/imageTransform';
+import { verifyProxySignature } from '@/lib/proxySignature';
+import { ImageProxyError, fetchPublicUrl } from '@/lib/ssrf';
+
+// Upstream requests go through node:http with a checked DNS lookup, see lib/ssrf
+export const runtime = 'nodejs';
+
+// Validators and caching headers relayed as they are
+const PASSTHROUGH_HEADERS = ['etag', 'last-modified'];
+// Conditional request headers forwarded upstream, so a 304 there becomes a 304 here
+const CONDITIONAL_HEADERS = ['if-none-match', 'if-modified-since'];
+
+const UPSTREAM_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (compatible; NextJS-Image-Proxy/1.0)',
+  // Byte limits and sniffing work on the raw image, not a compressed transfer
+  'Accept-Encoding': 'identity',
+};
+
+// Never let a browser reinterpret the bytes, or run anything if it somehow did
+const SECURITY_HEADERS = {
+  'X-Content-Type-Options': 'nosniff',
+  'Content-Security-Policy': "default-src 'none'; sandbox",
+};
+
+// Only images without any Cache-Control get the default lifetime
+function upstreamCacheControl(upstream: IncomingMessage): string {
+  return upstream.headers['cache-control'] || `public, max-age=${IMAGE_PROXY_CONFIG.DEFAULT_MAX_AGE}`;
+}
+
+// Seconds a transformed variant may be kept on disk; 0 when upstream forbids storing it
+function storableMaxAge(cacheControl: string): number {
+  if (/\b(no-store|no-cache|private)\b/i.test(cacheControl)) return 0;
+  const maxAge = /\bmax-age=(\d+)/i.exec(cacheControl);
+  return maxAge ? Number(maxAge[1]) : 0;
+}
+
+// Mirrors upstream caching
+function cacheHeaders(upstream: IncomingMessage): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Cache-Control': upstreamCacheControl(upstream),
+  };
+  for (const name of PASSTHROUGH_HEADERS) {
+    const value = upstream.headers[name];
+    if (typeof value === 'string') headers[name] = value;
+  }
+  return headers;
+}
+
+function matchesETag(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  return ifNoneMatch.trim() === '*' || ifNoneMatch.split(',').some(tag => tag.trim().replace(/^W\//, '') === etag);
+}
+
+// Reads until at least `size` bytes arrived or the body ended; the iterator continues after them
+async function readHead(iterator: AsyncIterator<Buffer>, size: number): Promise<{ head: Buffer; done: boolean }> {
+  const chunks: Buffer[] = [];
+  let length = 0;
+  while (length < size) {
+    const { value, done } = await iterator.next();
+    if (done) return { head: Buffer.concat(chunks), done: true };
+    chunks.push(value);
+    length += value.length;
+  }
+  return { head: Buffer.concat(chunks), done: false };
+}
+
+// Checks the declared size and the magic bytes before any of the body is passed on. Upstream
+// Content-Type is ignored; only bytes that really are an image get through.
+async function openImage(upstream: IncomingMessage): Promise<{ contentType: string; iterator: AsyncIterator<Buffer>; head: Buffer; done: boolean }> {
+  if (Number(upstream.headers['content-length']) > IMAGE_PROXY_CONFIG.MAX_BYTES) {
+    upstream.destroy();
+    throw new ImageProxyError('Image is too large', 413);
+  }
+
+  const iterator = upstream[Symbol.asyncIterator]() as AsyncIterator<Buffer>;
+  const { head, done } = await readHead(iterator, SNIFF_BYTES);
+  const contentType = sniffImageType(head);
+  if (!contentType) {
+    upstream.destroy();
+    throw new ImageProxyError('URL does not point to a supported image', 415);
+  }
+  return { contentType, iterator, head, done };
+}
+
+// Streams the already sniffed head followed by the rest of the upstream body, failing the
+// stream once it grows past MAX_BYTES
+function streamBody(upstream: IncomingMessage, iterator: AsyncIterator<Buffer>, head: Buffer, done: boolean): ReadableStream<Uint8Array> {
+  let total = head.length;
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(new Uint8Array(head));
+      if (done) controller.close();
+    },
+    async pull(controller) {
+      try {
+        const { value, done } = await iterator.next();
+        if (done) {
+          controller.close();
+          return;
+        }
+        total += value.length;
+        if (total > IMAGE_PROXY_CONFIG.MAX_BYTES) {
+          upstream.destroy();
+          controller.error(new ImageProxyError('Image is too large', 413));
+          return;
+        }
+        controller.enqueue(new Uint8Array(value));
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    cancel() {
+      upstream.destroy();
+    },
+  });
+}
+
+// Whole body in memory, for transforming; still bounded by MAX_BYTES
+async function readBody(upstream: IncomingMessage, iterator: AsyncIterator<Buffer>, head: Buffer, done: boolean): Promise<Buffer> {
+  const chunks = [head];
+  let total = head.length;
+  while (!done) {
+    const next = await iterator.next();
+    if (next.done) break;
+    total += next.value.length;
+    if (total > IMAGE_PROXY_CONFIG.MAX_BYTES) {
+      upstream.destroy();
+      throw new ImageProxyError('Image is too large', 413);
+    }
+    chunks.push(next.value);
+  }
+  return Buffer.concat(chunks);
+}
+
+function fetchUpstream(url: URL, headers: Record<string, string> = {}) {
+  // The timeout covers the body too, so a slow drip can't hold the connection open
+  return fetchPublicUrl(url, {
+    headers: { ...UPSTREAM_HEADERS, ...headers },
+    signal: AbortSignal.timeout(IMAGE_PROXY_CONFIG.TIMEOUT),
+  });
+}
+
+function upstreamFailed(upstream: IncomingMessage): NextResponse | null {
+  const status = upstream.statusCode ?? 502;
+  if (status >= 200 && status < 300) return null;
+
+  upstream.resume();
+  return NextResponse.json({ error: 'Failed to fetch image' }, { status });
+}
+
+// Relays the original image, streaming it through
+async function proxyOriginal(request: NextRequest, imageUrl: URL): Promise<NextResponse> {
+  const conditional: Record<string, string> = {};
+  for (const name of CONDITIONAL_HEADERS) {
+    const value = request.headers.get(name);
+    if (value) conditional[name] = value;
+  }
+
+  const { response } = await fetchUpstream(imageUrl, conditional);
+  if (response.statusCode === 304) {
+    response.resume();
+    return new NextResponse(null, { status: 304, headers: cacheHeaders(response) });
+  }
+  const failed = upstreamFailed(response);
+  if (failed) return failed;
+
+  const { contentType, iterator, head, done } = await openImage(response);
+  const declaredLength = Number(response.headers['content-length']);
+
+  return new NextResponse(streamBody(response, iterator, head, done), {
+    status: 200,
+    headers: {
+      'Content-Type': contentType,
+      ...(declaredLength > 0 ? { 'Content-Length': String(declaredLength) } : {}),
+      ...cacheHeaders(response),
+      ...SECURITY_HEADERS,
+    },
+  });
+}
+
+// Resizes and re-encodes, serving repeat requests for the same variant from the disk cache.
+// Validators here belong to the variant, so the client's conditional headers are answered
+// locally rather than forwarded. The source's placeholder is computed from the same download
+// the first time, and handed out by /api/image-proxy/sign from then on.
+async function proxyTransformed(request: NextRequest, imageUrl: URL, transform: TransformOptions): Promise<NextResponse> {
+  const key = variantKey(imageUrl.href, transform.width, transform.height, transform.fit, transform.quality, transform.preferredFormat);
+
+  let variant = await readVariant(key);
+  if (!variant) {
+    const { response } = await fetchUpstream(imageUrl);
+    const failed = upstreamFailed(response);
+    if (failed) return failed;
+
+    const { contentType: sourceType, iterator, head, done } = await openImage(response);
+    const source = await readBody(response, iterator, head, done);
+    const [{ data, contentType }, placeholder] = await Promise.all([
+      transformImage(source, sourceType, transform),
+      // Only cosmetic, so it never fails the image
+      readPlaceholder(imageUrl.href).then(known => (known ? null : computePlaceholder(source))).catch(() => null),
+    ]);
+
+    const cacheControl = upstreamCacheControl(response);
+    const lastModified = response.headers['last-modified'];
+    variant = {
+      data,
+      contentType,
+      etag: contentETag(data),
+      cacheControl,
+      ...(lastModified ? { lastModified } : {}),
+      expiresAt: Date.now() + storableMaxAge(cacheControl) * 1000,
+    };
+    if (storableMaxAge(cacheControl) > 0) {
+      // A failed write only costs a re-transform next time
+      writeVariant(key, variant).catch(error => console.error('Image proxy cache write failed:', error));
+      if (placeholder) {
+        writePlaceholder(imageUrl.href, placeholder, variant.expiresAt)
+          .catch(error => console.error('Image proxy cache write failed:', error));
+      }
+    }
+  }
+
+  const headers = {
+    'Cache-Control': variant.cacheControl,
+    ETag: variant.etag,
+    ...(variant.lastModified ? { 'Last-Modified': variant.lastModified } : {}),
+    // The format depends on what the browser accepts
+    Vary: 'Accept',
+  };
+  if (matchesETag(request.headers.get('if-none-match'), variant.etag)) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  return new NextResponse(new Uint8Array(variant.data), {
+    status: 200,
+    headers: {
+      'Content-Type': variant.contentType,
+      'Content-Length': String(variant.data.length),
+      ...headers,
+      ...SECURITY_HEADERS,
+    },
+  });
+}
 
 export async function GET(request: NextRequest) {
   try {
@@ -17,49 +263,36 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Invalid URL' }, { status: 400 });
     }
 
-    // Only allow http and https protocols
-    if (!['http:', 'https:'].includes(parsedUrl.protocol)) {
-      return NextResponse.json({ error: 'Only HTTP and HTTPS URLs are allowed' }, { status: 400 });
-    }
-
-    // Fetch the image
-    const response = await fetch(imageUrl, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (compatible; NextJS-Image-Proxy/1.0)',
-      },
-    });
+    const transform = parseTransformParams(searchParams, request.headers.get('accept'));
 
-    if (!response.ok) {
-      return NextResponse.json({ error: 'Failed to fetch image' }, { status: response.status });
+    // Only URLs signed by /api/image-proxy/sign are fetched, so the proxy isn't an open relay.
+    // The signature covers the normalised transform, so it can't be replayed for other sizes.
+    switch (verifyProxySignature(imageUrl, transform, searchParams.get('exp'), searchParams.get('sig'))) {
+      case 'invalid':
+        return NextResponse.json({ error: 'Missing or invalid signature' }, { status: 403 });
+      case 'expired':
+        return NextResponse.json({ error: 'Signature has expired' }, { status: 403 });
     }
 
-    const imageBuffer = await response.arrayBuffer();
-    const contentType = response.headers.get('content-type') || 'image/jpeg';
-
-    // Return the image with proper headers
-    return new NextResponse(imageBuffer, {
-      status: 200,
-      headers: {
-        'Content-Type': contentType,
-        'Cache-Control': 'public, max-age=31536000, immutable',
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Methods': 'GET',
-        'Access-Control-Allow-Headers': 'Content-Type',
-      },
-    });
+    // Every upstream fetch refuses internal targets, on the first request and every redirect
+    return transform
+      ? await proxyTransformed(request, parsedUrl, transform)
+      : await proxyOriginal(request, parsedUrl);
   } catch (error) {
+    if (error instanceof ImageProxyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    // The timeout fired while the body was still being read
+    if (error instanceof Error && error.name === 'AbortError') {
+      return NextResponse.json({ error: 'Upstream request timed out' }, { status: 504 });
+    }
     console.error('Image proxy error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
 }
 
-export async function OPTIONS(request: NextRequest) {
-  return new NextResponse(null, {
-    status: 200,
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
-    },
-  });
+// CORS preflight. The Access-Control-* headers come from the per-environment rules in
+// next.config.ts, so an origin that isn't allowed gets none and the browser stops there.
+export async function OPTIONS() {
+  return new NextResponse(null, { status: 204 });
 }
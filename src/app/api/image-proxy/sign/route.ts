@@ -0,0 +1,111 @@
+import { createHash } from 'node:crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { API_CONFIG, ImagePlaceholder } from '@/config/api';
+import { IMAGE_PROXY_CONFIG } from '@/config/imageProxy';
+import { readPlaceholder } from '@/lib/imageCache';
+import { MAX_SIGN_BATCH, ProxySignature, SignableImage, SignProxyUrlsResponse } from '@/lib/imageProxyUrl';
+import { TransformOptions, parseTransformParams } from '@/lib/imageTransform';
+import { signProxyUrl } from '@/lib/proxySignature';
+import { ImageProxyError, assertPublicUrl } from '@/lib/ssrf';
+
+// POST /api/image-proxy/sign  {"images": [{url, w?, h?, fit?, q?}, ...]}
+//   ->  {"signatures": [{exp, sig} | null, ...], "placeholders": [{color, blurhash} | null, ...]}
+//
+// Signs proxy URLs for SafeImage, one per variant. Only signed-in users get signatures, checked
+// against the API with the same token the rest of the app uses, and only for URLs and transforms
+// the proxy would serve anyway. Placeholders the proxy has already computed come along, so they
+// can be shown before the image itself is requested.
+
+export const runtime = 'nodejs';
+
+// sha256 of the token -> epoch ms until which it counts as valid
+const verifiedTokens = new Map<string, number>();
+
+function getToken(request: NextRequest): string | null {
+  const cookie = request.cookies.get('auth_token')?.value;
+  if (cookie) return cookie;
+  const header = request.headers.get('authorization');
+  return header?.startsWith('Bearer ') ? header.slice(7) : null;
+}
+
+async function isAuthenticated(token: string): Promise<boolean> {
+  const key = createHash('sha256').update(token).digest('hex');
+  const now = Date.now();
+  if ((verifiedTokens.get(key) ?? 0) > now) return true;
+
+  for (const [cached, expiresAt] of verifiedTokens) {
+    if (expiresAt <= now) verifiedTokens.delete(cached);
+  }
+
+  const response = await fetch(`${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.PROFILE}`, {
+    headers: { Authorization: `Bearer ${token}`, Accept: 'application/json' },
+    signal: AbortSignal.timeout(API_CONFIG.TIMEOUT),
+  });
+  if (!response.ok) return false;
+
+  verifiedTokens.set(key, now + IMAGE_PROXY_CONFIG.AUTH_CACHE_TTL);
+  return true;
+}
+
+const TRANSFORM_PARAMS = ['w', 'h', 'fit', 'q'] as const;
+
+function signIfAllowed(image: unknown): ProxySignature | null {
+  if (typeof image !== 'object' || image === null) return null;
+  const fields = image as Record<string, unknown>;
+  if (typeof fields.url !== 'string') return null;
+
+  // Normalised exactly as the proxy will parse the URL it ends up in
+  const params = new URLSearchParams();
+  for (const name of TRANSFORM_PARAMS) {
+    if (fields[name] !== undefined && fields[name] !== null) params.set(name, String(fields[name]));
+  }
+  let transform: TransformOptions | null;
+  try {
+    assertPublicUrl(new URL(fields.url));
+    transform = parseTransformParams(params, null);
+  } catch {
+    return null;
+  }
+  return signProxyUrl(fields.url, transform);
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const token = getToken(request);
+    if (!token || !(await isAuthenticated(token))) {
+      return NextResponse.json({ error: 'Unauthenticated' }, { status: 401 });
+    }
+
+    let images: unknown;
+    try {
+      ({ images } = await request.json());
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+    if (!Array.isArray(images) || images.length === 0 || images.length > MAX_SIGN_BATCH) {
+      return NextResponse.json(
+        { error: `images must be an array of 1 to ${MAX_SIGN_BATCH} images` },
+        { status: 400 }
+      );
+    }
+
+    const signatures = images.map(signIfAllowed);
+    // Variants of the same image share one placeholder
+    const lookups = new Map<string, Promise<ImagePlaceholder | null>>();
+    const placeholders = await Promise.all(images.map((image, index) => {
+      if (!signatures[index]) return null;
+      const { url } = image as SignableImage;
+      if (!lookups.has(url)) lookups.set(url, readPlaceholder(url));
+      return lookups.get(url)!;
+    }));
+
+    const body: SignProxyUrlsResponse = { signatures, placeholders };
+    return NextResponse.json(body, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    if (error instanceof ImageProxyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Image proxy signing error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
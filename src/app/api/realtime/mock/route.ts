@@ -0,0 +1,172 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Comment, Post, RealtimeEvent } from '@/config/api';
+
+// Local stand-in for the realtime backend, served as Server-Sent Events by `next dev`.
+//
+// Only served when NEXT_PUBLIC_REALTIME_MOCK=1, which also points the client at it.
+//
+//   GET  /api/realtime/mock   opens the event stream
+//   POST /api/realtime/mock   broadcasts the JSON event in the body to every open stream, e.g.
+//        curl -X POST localhost:3000/api/realtime/mock -d '{"type":"post.liked","post_id":1,"likes_count":42}'
+//
+// Unless REALTIME_MOCK_INTERVAL=0, every stream also receives generated demo activity
+// (new posts, likes and comments on them) every REALTIME_MOCK_INTERVAL ms (default 15s).
+
+export const dynamic = 'force-dynamic';
+
+const HEARTBEAT_INTERVAL = 15000;
+const DEMO_NAMES = ['Alice', 'Budi', 'Citra', 'Dimas', 'Eka'];
+
+const encoder = new TextEncoder();
+const streams = new Set<ReadableStreamDefaultController<Uint8Array>>();
+let nextDemoId = 1_000_000;
+
+function isDisabled(): boolean {
+  return process.env.NODE_ENV === 'production' || process.env.NEXT_PUBLIC_REALTIME_MOCK !== '1';
+}
+
+function send(controller: ReadableStreamDefaultController<Uint8Array>, event: RealtimeEvent): void {
+  controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+}
+
+function broadcast(event: RealtimeEvent): void {
+  for (const controller of streams) {
+    try {
+      send(controller, event);
+    } catch {
+      streams.delete(controller);
+    }
+  }
+}
+
+function pick<T>(items: T[]): T {
+  return items[Math.floor(Math.random() * items.length)];
+}
+
+function createDemoPost(): Post {
+  const id = nextDemoId++;
+  const name = pick(DEMO_NAMES);
+  const now = Math.floor(Date.now() / 1000);
+  const images = [1, 2, 3].map(n => `https://picsum.photos/seed/${id}-${n}/600/600`);
+  return {
+    id,
+    user_id: id,
+    content: `Demo post from the mock realtime server (#${id})`,
+    image_url: images[0],
+    images,
+    likes_count: 0,
+    comments_count: 0,
+    created_at: now,
+    updated_at: now,
+    user: { id, name },
+    comments: [],
+    is_liked: false,
+  };
+}
+
+function createDemoComment(post: Post): Comment {
+  const id = nextDemoId++;
+  const name = pick(DEMO_NAMES);
+  return {
+    id,
+    post_id: post.id,
+    user_id: id,
+    content: `Nice one, ${post.user.name}!`,
+    created_at: Math.floor(Date.now() / 1000),
+    user: { id, name },
+  };
+}
+
+// Cycles through a new post followed by a like and a comment on it
+function createDemoEmitter(controller: ReadableStreamDefaultController<Uint8Array>): () => void {
+  let post: Post | null = null;
+  let step = 0;
+
+  return () => {
+    if (!post || step % 3 === 0) {
+      post = createDemoPost();
+      send(controller, { type: 'post.created', post });
+    } else if (step % 3 === 1) {
+      post = { ...post, likes_count: post.likes_count + 1 + Math.floor(Math.random() * 5) };
+      send(controller, { type: 'post.liked', post_id: post.id, likes_count: post.likes_count });
+    } else {
+      send(controller, { type: 'comment.created', comment: createDemoComment(post) });
+    }
+    step++;
+  };
+}
+
+export async function GET(request: NextRequest) {
+  if (isDisabled()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const demoInterval = Number(process.env.REALTIME_MOCK_INTERVAL ?? 15000);
+  const timers: ReturnType<typeof setInterval>[] = [];
+  let streamController: ReadableStreamDefaultController<Uint8Array> | null = null;
+
+  const cleanup = () => {
+    timers.forEach(clearInterval);
+    if (streamController) {
+      streams.delete(streamController);
+    }
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      streamController = controller;
+      streams.add(controller);
+      controller.enqueue(encoder.encode(': connected\n\n'));
+
+      timers.push(setInterval(() => {
+        try {
+          controller.enqueue(encoder.encode(': heartbeat\n\n'));
+        } catch {
+          cleanup();
+        }
+      }, HEARTBEAT_INTERVAL));
+
+      if (demoInterval > 0) {
+        const emitDemoEvent = createDemoEmitter(controller);
+        timers.push(setInterval(() => {
+          try {
+            emitDemoEvent();
+          } catch {
+            cleanup();
+          }
+        }, demoInterval));
+      }
+    },
+    cancel: cleanup,
+  });
+
+  request.signal.addEventListener('abort', cleanup);
+
+  return new NextResponse(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  });
+}
+
+export async function POST(request: NextRequest) {
+  if (isDisabled()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  let event: RealtimeEvent;
+  try {
+    event = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Body must be a JSON realtime event' }, { status: 400 });
+  }
+
+  if (!event || !['post.created', 'post.liked', 'comment.created', 'notification.created'].includes(event.type)) {
+    return NextResponse.json({ error: 'Unknown event type' }, { status: 400 });
+  }
+
+  broadcast(event);
+  return NextResponse.json({ delivered: streams.size });
+}
@@ -1,39 +1,69 @@
 'use client';
 
 import { useEffect, useState, useCallback, useRef } from 'react';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { formatDistanceToNow } from 'date-fns';
-import SafeImage from '@/components/SafeImage';
+import SafeImage, { AVATAR_FALLBACK_SRC } from '@/components/SafeImage';
 import PostForm from '@/components/PostForm';
+import PostActionsMenu from '@/components/PostActionsMenu';
+import EditPostForm from '@/components/EditPostForm';
+import CommentItem from '@/components/CommentItem';
+import NotificationBell from '@/components/NotificationBell';
+import FollowButton from '@/components/FollowButton';
+import MentionInput from '@/components/MentionInput';
+import RichText from '@/components/RichText';
+import SearchBox from '@/components/SearchBox';
+import PostCarousel from '@/components/PostCarousel';
 import { apiClient } from '@/lib/api';
-import { Post, Comment, Pagination, User } from '@/config/api';
+import { createIdempotencyKey, outbox } from '@/lib/outbox';
+import { isOnline } from '@/lib/network';
+import { cache, cacheKeys, useCachedPosts } from '@/lib/cache';
+import { realtime, applyRealtimeEventToCache } from '@/lib/realtime';
+import { formatLocalDateTime } from '@/lib/schedule';
+import { Post, Comment, User, UpdatePostRequest, FeedType } from '@/config/api';
+
+// How long a deleted comment can still be restored before the API call is made
+const COMMENT_UNDO_DELAY = 5000;
+
+interface PendingCommentDelete {
+  postId: number;
+  comment: Comment;
+  index: number;
+}
 
 export default function DashboardPage() {
   const router = useRouter();
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isLoggingOut, setIsLoggingOut] = useState(false);
-  const [posts, setPosts] = useState<Post[]>([]);
+  const [feed, setFeed] = useState<FeedType>('global');
+  const feedKey = cacheKeys.feed(feed);
+  // Each tab is its own cached list, so switching keeps the other tab's pages and pagination
+  const { posts, setPosts, pagination } = useCachedPosts(feedKey);
   const [newComment, setNewComment] = useState<{ [key: number]: string }>({});
   const [isLoadingPosts, setIsLoadingPosts] = useState(false);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [expandedComments, setExpandedComments] = useState<{ [key: number]: boolean }>({});
-  const [pagination, setPagination] = useState<Pagination | null>(null);
-  const [hasMorePosts, setHasMorePosts] = useState(true);
+  const [editingPostId, setEditingPostId] = useState<number | null>(null);
+  const [newPosts, setNewPosts] = useState<Post[]>([]);
+  const [pendingCommentDelete, setPendingCommentDelete] = useState<PendingCommentDelete | null>(null);
   const loadMoreRef = useRef<HTMLDivElement>(null);
+  const pendingCommentDeleteRef = useRef<PendingCommentDelete | null>(null);
+  const commentDeleteTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const hasMorePosts = !pagination || pagination.current_page < pagination.last_page;
 
-  // Fetch initial posts from API
+  // Fetch the first page of posts, showing the cached feed meanwhile (stale-while-revalidate)
   const fetchPosts = useCallback(async () => {
-    setIsLoadingPosts(true);
+    // Only show the spinner when there is nothing cached to show in the meantime
+    setIsLoadingPosts(!cache.getList(feedKey));
     setError(null);
     try {
-      const response = await apiClient.getPosts(1, 10);
+      const response = await cache.dedupe(`${feedKey}:1`, () => apiClient.getPosts(1, 10, feed));
       console.log('API Response:', response);
       if (response.success && response.data && response.data.posts && Array.isArray(response.data.posts)) {
-        setPosts(response.data.posts);
-        setPagination(response.data.pagination);
-        setHasMorePosts(response.data.pagination.current_page < response.data.pagination.last_page);
+        cache.receivePage('posts', feedKey, response.data.posts, response.data.pagination);
       } else {
         console.log('API failed or returned non-array data:', response);
         setError(response.message || 'Failed to load posts');
@@ -44,7 +74,7 @@ export default function DashboardPage() {
     } finally {
       setIsLoadingPosts(false);
     }
-  }, []);
+  }, [feed, feedKey]);
 
   // Load more posts for infinite scroll
   const loadMorePosts = useCallback(async () => {
@@ -53,12 +83,10 @@ export default function DashboardPage() {
     setIsLoadingMore(true);
     try {
       const nextPage = pagination.current_page + 1;
-      const response = await apiClient.getPosts(nextPage, 10);
+      const response = await cache.dedupe(`${feedKey}:${nextPage}`, () => apiClient.getPosts(nextPage, 10, feed));
       
       if (response.success && response.data && response.data.posts && Array.isArray(response.data.posts)) {
-        setPosts(prevPosts => [...prevPosts, ...response.data!.posts]);
-        setPagination(response.data!.pagination);
-        setHasMorePosts(response.data!.pagination.current_page < response.data!.pagination.last_page);
+        cache.receivePage('posts', feedKey, response.data.posts, response.data.pagination);
       } else {
         setError(response.message || 'Failed to load more posts');
       }
@@ -68,7 +96,7 @@ export default function DashboardPage() {
     } finally {
       setIsLoadingMore(false);
     }
-  }, [pagination, hasMorePosts, isLoadingMore]);
+  }, [feed, feedKey, pagination, hasMorePosts, isLoadingMore]);
 
   useEffect(() => {
     // Check if user is authenticated
@@ -77,7 +105,7 @@ export default function DashboardPage() {
       return;
     }
 
-    // Fetch user profile and posts
+    // Fetch user profile; the feed loads once the user is known
     const fetchData = async () => {
       try {
         const [profileResponse] = await Promise.all([
@@ -86,21 +114,87 @@ export default function DashboardPage() {
         
         if (profileResponse.success && profileResponse.data) {
           setUser(profileResponse.data.user);
-          // Fetch posts after profile is loaded
-          await fetchPosts();
         } else {
           // If profile fetch fails, redirect to login
-          router.push('/login');
+          router.push('/login?redirect=/dashboard');
         }
       } catch {
-        router.push('/login');
+        router.push('/login?redirect=/dashboard');
       } finally {
         setIsLoading(false);
       }
     };
 
     fetchData();
-  }, [router, fetchPosts]);
+  }, [router]);
+
+  // Serve the selected feed from the cache right away and revalidate it when stale
+  useEffect(() => {
+    if (!user || cache.isFresh(feedKey)) return;
+    fetchPosts();
+  }, [user, feedKey, fetchPosts]);
+
+  // Live updates: likes and comments go straight into the cache, new posts wait behind a banner
+  // so the feed doesn't jump while the user is reading
+  useEffect(() => {
+    if (!user) return;
+
+    return realtime.subscribe((event) => {
+      applyRealtimeEventToCache(event, user.id);
+      if (event.type === 'post.created' && event.post.user_id !== user.id) {
+        const { post } = event;
+        setNewPosts(current => current.some(p => p.id === post.id) ? current : [post, ...current]);
+      }
+    });
+  }, [user]);
+
+  // Replay changes queued while offline and reconcile them with the feed
+  useEffect(() => {
+    const unsubscribe = outbox.subscribe((event) => {
+      const { entry } = event;
+
+      if (event.type === 'synced') {
+        // Swap the temporary comment for the one the server created
+        if (entry.type === 'comment' && event.comment) {
+          const serverComment = event.comment;
+          setPosts(currentPosts => currentPosts.map(post => {
+            if (post.id === entry.post_id) {
+              return {
+                ...post,
+                comments: post.comments.map(c => c.id === entry.temp_id ? serverComment : c)
+              };
+            }
+            return post;
+          }));
+        }
+        return;
+      }
+
+      // The server rejected a queued change, so undo its optimistic update
+      setPosts(currentPosts => currentPosts.map(post => {
+        if (post.id !== entry.post_id) return post;
+        if (entry.type === 'comment') {
+          return {
+            ...post,
+            comments: post.comments.filter(c => c.id !== entry.temp_id),
+            comments_count: post.comments_count - 1
+          };
+        }
+        return {
+          ...post,
+          is_liked: entry.type === 'unlike',
+          likes_count: entry.type === 'like' ? post.likes_count - 1 : post.likes_count + 1
+        };
+      }));
+      setError(event.message);
+    });
+    const stop = outbox.start();
+
+    return () => {
+      unsubscribe();
+      stop();
+    };
+  }, [setPosts]);
 
   // Intersection Observer for infinite scroll
   useEffect(() => {
@@ -171,12 +265,26 @@ export default function DashboardPage() {
       return p;
     }));
 
+    const likeAction = { type: post.is_liked ? 'unlike' : 'like', post_id: postId } as const;
+    // Shared by the request and any replay of it, so the like is applied at most once
+    const idempotencyKey = createIdempotencyKey();
+
     try {
+      // While offline, keep the optimistic state and queue the change for replay
+      if (!isOnline() && outbox.isAvailable()) {
+        await outbox.enqueue(likeAction, { idempotencyKey });
+        return;
+      }
+
       const response = post.is_liked 
-        ? await apiClient.unlikePost(postId)
-        : await apiClient.likePost(postId);
+        ? await apiClient.unlikePost(postId, { idempotencyKey })
+        : await apiClient.likePost(postId, { idempotencyKey });
       
-      if (!response.success) {
+      if (response.status === 0 && outbox.isAvailable()) {
+        // The connection dropped or timed out mid-request, queue the change instead of losing it.
+        // It may have reached the server, which the shared key takes care of.
+        await outbox.enqueue(likeAction, { idempotencyKey, attempted: true });
+      } else if (!response.success) {
         // Revert optimistic update on failure using functional state update
         setPosts(currentPosts => currentPosts.map(p => {
           if (p.id === postId) {
@@ -206,12 +314,95 @@ export default function DashboardPage() {
     }
   };
 
+  const handleUpdatePost = async (postId: number, postData: UpdatePostRequest) => {
+    if (!user?.permissions.can_update_post) {
+      setError('You do not have permission to edit posts.');
+      return;
+    }
+
+    const post = posts.find(p => p.id === postId);
+    if (!post) return;
+
+    // Optimistic update of the caption; a replaced image is only shown once the server returns it
+    setPosts(currentPosts => currentPosts.map(p => 
+      p.id === postId ? { ...p, content: postData.content } : p
+    ));
+
+    try {
+      const response = await apiClient.updatePost(postId, postData);
+
+      if (response.success && response.data) {
+        const updatedPost = response.data.post;
+        setPosts(currentPosts => currentPosts.map(p => 
+          p.id === postId
+            ? { ...p, content: updatedPost.content, image_url: updatedPost.image_url, images: updatedPost.images, updated_at: updatedPost.updated_at }
+            : p
+        ));
+        setEditingPostId(null);
+      } else {
+        // Revert optimistic update on failure
+        setPosts(currentPosts => currentPosts.map(p => 
+          p.id === postId ? { ...p, content: post.content } : p
+        ));
+        setError(response.message || 'Failed to update post');
+      }
+    } catch {
+      // Revert optimistic update on error
+      setPosts(currentPosts => currentPosts.map(p => 
+        p.id === postId ? { ...p, content: post.content } : p
+      ));
+      setError('Network error. Please try again.');
+    }
+  };
+
+  const handleDeletePost = async (postId: number) => {
+    if (!user?.permissions.can_delete_post) {
+      setError('You do not have permission to delete posts.');
+      return;
+    }
+
+    const confirmed = window.confirm('Are you sure you want to delete this post?');
+    if (!confirmed) return;
+
+    const index = posts.findIndex(p => p.id === postId);
+    if (index === -1) return;
+    const post = posts[index];
+
+    // Optimistic removal using functional state update
+    setPosts(currentPosts => currentPosts.filter(p => p.id !== postId));
+
+    const restorePost = () => {
+      setPosts(currentPosts => {
+        if (currentPosts.some(p => p.id === postId)) return currentPosts;
+        const restored = [...currentPosts];
+        restored.splice(Math.min(index, restored.length), 0, post);
+        return restored;
+      });
+    };
+
+    try {
+      const response = await apiClient.deletePost(postId);
+
+      if (response.success) {
+        // Also drop it from profile grids and any other cached list
+        cache.removePost(postId);
+      } else {
+        // Put the post back where it was on failure
+        restorePost();
+        setError(response.message || 'Failed to delete post');
+      }
+    } catch {
+      restorePost();
+      setError('Network error. Please try again.');
+    }
+  };
+
   const handleComment = async (postId: number) => {
     const commentText = newComment[postId]?.trim();
     if (!commentText || !user) return;
 
     const tempComment: Comment = {
-      id: Date.now() + Math.random(), // More unique temporary ID
+      id: Date.now() + Math.random(), // Fractional temporary ID, swapped for the server ID once saved
       post_id: postId,
       user_id: user.id,
       content: commentText,
@@ -236,13 +427,33 @@ export default function DashboardPage() {
 
     setNewComment({ ...newComment, [postId]: '' });
 
+    const commentAction = {
+      type: 'comment',
+      post_id: postId,
+      content: commentText,
+      temp_id: tempComment.id
+    } as const;
+
+    // Shared by the request and any replay of it, so the comment is created at most once
+    const idempotencyKey = createIdempotencyKey();
+
     try {
+      // While offline, keep the optimistic comment and queue it for replay
+      if (!isOnline() && outbox.isAvailable()) {
+        await outbox.enqueue(commentAction, { idempotencyKey });
+        return;
+      }
+
       const response = await apiClient.createComment({
         post_id: postId,
         content: commentText
-      });
+      }, { idempotencyKey });
 
-      if (response.success && response.data) {
+      if (response.status === 0 && outbox.isAvailable()) {
+        // The connection dropped or timed out mid-request, queue the comment instead of losing it.
+        // It may have reached the server, which the shared key takes care of.
+        await outbox.enqueue(commentAction, { idempotencyKey, attempted: true });
+      } else if (response.success && response.data) {
         // Update with real comment data using functional state update
         setPosts(currentPosts => currentPosts.map(post => {
           if (post.id === postId) {
@@ -255,6 +466,8 @@ export default function DashboardPage() {
           }
           return post;
         }));
+        // The post page has to pick up the new comment on its next visit
+        cache.invalidate(cacheKeys.postComments(postId));
       } else {
         // Remove optimistic comment on failure using functional state update
         setPosts(currentPosts => currentPosts.map(post => {
@@ -285,6 +498,148 @@ export default function DashboardPage() {
     }
   };
 
+  // Optimistic comments carry a fractional temporary ID until the server responds
+  const isOwnSavedComment = (comment: Comment) =>
+    !!user && comment.user_id === user.id && Number.isInteger(comment.id);
+
+  const handleUpdateComment = async (postId: number, comment: Comment, content: string): Promise<boolean> => {
+    if (!user?.permissions.can_update_comment) {
+      setError('You do not have permission to edit comments.');
+      return false;
+    }
+
+    const setCommentContent = (value: string) => {
+      setPosts(currentPosts => currentPosts.map(post => {
+        if (post.id === postId) {
+          return {
+            ...post,
+            comments: post.comments.map(c => c.id === comment.id ? { ...c, content: value } : c)
+          };
+        }
+        return post;
+      }));
+    };
+
+    // Optimistic update
+    setCommentContent(content);
+
+    try {
+      const response = await apiClient.updateComment({
+        post_id: postId,
+        comment_id: comment.id,
+        content
+      });
+
+      if (response.success) {
+        return true;
+      }
+      // Revert optimistic update on failure
+      setCommentContent(comment.content);
+      setError(response.message || 'Failed to update comment');
+    } catch {
+      setCommentContent(comment.content);
+      setError('Network error. Please try again.');
+    }
+    return false;
+  };
+
+  const restoreComment = useCallback(({ postId, comment, index }: PendingCommentDelete) => {
+    setPosts(currentPosts => currentPosts.map(post => {
+      if (post.id === postId && !post.comments.some(c => c.id === comment.id)) {
+        const comments = [...post.comments];
+        comments.splice(Math.min(index, comments.length), 0, comment);
+        return {
+          ...post,
+          comments,
+          comments_count: post.comments_count + 1
+        };
+      }
+      return post;
+    }));
+  }, [setPosts]);
+
+  // Sends the delete request for the comment waiting in the undo window
+  const commitCommentDelete = useCallback(async () => {
+    const pending = pendingCommentDeleteRef.current;
+    if (!pending) return;
+
+    if (commentDeleteTimerRef.current) {
+      clearTimeout(commentDeleteTimerRef.current);
+      commentDeleteTimerRef.current = null;
+    }
+    pendingCommentDeleteRef.current = null;
+    setPendingCommentDelete(null);
+
+    try {
+      const response = await apiClient.deleteComment(pending.postId, pending.comment.id);
+      if (response.success) {
+        // Drop it from a cached comment thread on the post page as well
+        cache.removeComment(pending.comment.id);
+      } else {
+        restoreComment(pending);
+        setError(response.message || 'Failed to delete comment');
+      }
+    } catch {
+      restoreComment(pending);
+      setError('Network error. Please try again.');
+    }
+  }, [restoreComment]);
+
+  const handleDeleteComment = (postId: number, comment: Comment) => {
+    if (!user?.permissions.can_delete_comment) {
+      setError('You do not have permission to delete comments.');
+      return;
+    }
+
+    const post = posts.find(p => p.id === postId);
+    if (!post) return;
+
+    // Only one deletion can be undone at a time, so flush the previous one
+    commitCommentDelete();
+
+    const pending: PendingCommentDelete = {
+      postId,
+      comment,
+      index: post.comments.findIndex(c => c.id === comment.id),
+    };
+
+    // Optimistic removal using functional state update
+    setPosts(currentPosts => currentPosts.map(p => {
+      if (p.id === postId) {
+        return {
+          ...p,
+          comments: p.comments.filter(c => c.id !== comment.id),
+          comments_count: p.comments_count - 1
+        };
+      }
+      return p;
+    }));
+
+    pendingCommentDeleteRef.current = pending;
+    setPendingCommentDelete(pending);
+    commentDeleteTimerRef.current = setTimeout(commitCommentDelete, COMMENT_UNDO_DELAY);
+  };
+
+  const handleUndoCommentDelete = () => {
+    const pending = pendingCommentDeleteRef.current;
+    if (!pending) return;
+
+    if (commentDeleteTimerRef.current) {
+      clearTimeout(commentDeleteTimerRef.current);
+      commentDeleteTimerRef.current = null;
+    }
+    pendingCommentDeleteRef.current = null;
+    setPendingCommentDelete(null);
+    restoreComment(pending);
+  };
+
+  // Don't lose a pending deletion when leaving the page
+  useEffect(() => {
+    return () => {
+      commitCommentDelete();
+    };
+  }, [commitCommentDelete]);
+
   const handleCommentChange = (postId: number, value: string) => {
     setNewComment({ ...newComment, [postId]: value });
   };
@@ -296,10 +651,22 @@ export default function DashboardPage() {
     }));
   };
 
+  const showNewPosts = () => {
+    setPosts(currentPosts => [
+      ...newPosts.filter(post => !currentPosts.some(p => p.id === post.id)),
+      ...currentPosts
+    ]);
+    setNewPosts([]);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
   const handlePostCreated = () => {
-    // Reset pagination and refresh posts after creating a new one
-    setPagination(null);
-    setHasMorePosts(true);
+    // Pull the new post in at the top without dropping loaded pages or the scroll position.
+    // The global feed key prefixes every feed tab, so they are all marked stale.
+    cache.invalidate(cacheKeys.feed());
+    if (user) {
+      cache.invalidate(cacheKeys.userPosts(user.id));
+    }
     fetchPosts();
   };
 
@@ -324,8 +691,18 @@ export default function DashboardPage() {
                 InstaApp
               </h1>
             </div>
+            <div className="flex items-center">
+              <SearchBox />
+            </div>
             <div className="flex items-center space-x-4">
               <span className="text-gray-700">Welcome, {user?.name || 'User'}!</span>
+              <NotificationBell />
+              <Link href="/scheduled" className="text-gray-600 hover:text-gray-900 transition-colors">
+                Scheduled
+              </Link>
+              <Link href="/settings" className="text-gray-600 hover:text-gray-900 transition-colors">
+                Settings
+              </Link>
               <button
                 onClick={handleLogout}
                 disabled={isLoggingOut}
@@ -390,156 +767,219 @@ export default function DashboardPage() {
           </div>
         )}
 
+        {/* Feed Tabs */}
+        <div className="flex mb-6 bg-white rounded-lg shadow-sm border border-gray-200 p-1">
+          {([['global', 'For you'], ['following', 'Following']] as const).map(([type, label]) => (
+            <button
+              key={type}
+              onClick={() => setFeed(type)}
+              className={`flex-1 py-2 text-sm font-semibold rounded-md transition-colors ${
+                feed === type
+                  ? 'bg-gradient-to-r from-purple-600 to-pink-600 text-white'
+                  : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {/* New Posts Banner */}
+        {feed === 'global' && newPosts.length > 0 && (
+          <div className="sticky top-4 z-20 flex justify-center mb-4">
+            <button
+              onClick={showNewPosts}
+              className="px-4 py-2 bg-gradient-to-r from-purple-600 to-pink-600 text-white text-sm font-semibold rounded-full shadow-lg hover:from-purple-700 hover:to-pink-700 transition-all"
+            >
+              &uarr; {newPosts.length} new {newPosts.length === 1 ? 'post' : 'posts'}
+            </button>
+          </div>
+        )}
+
         {/* Instagram-like Feed */}
         <div className="space-y-6">
           {Array.isArray(posts) && posts.length > 0 ? (
             <>
-              {posts.map((post) => (
+              {posts.map((post, index) => (
             <div key={post.id} className="bg-white rounded-lg shadow-sm border border-gray-200">
               {/* Post Header */}
               <div className="flex items-center p-4 border-b border-gray-100">
-                <SafeImage
-                  src={`https://ui-avatars.com/api/?name=${post.user.name}&background=random`}
-                  alt={post.user.name}
-                  width={40}
-                  height={40}
-                  className="w-10 h-10 rounded-full object-cover mr-3"
-                  useProxy={false}
-                  fallbackSrc="https://ui-avatars.com/api/?name=User&background=random"
-                />
+                <Link href={`/users/${post.user.id}`} className="mr-3 shrink-0">
+                  <SafeImage
+                    src={`https://ui-avatars.com/api/?name=${post.user.name}&background=random`}
+                    alt={post.user.name}
+                    width={40}
+                    height={40}
+                    className="w-10 h-10 rounded-full object-cover"
+                    useProxy={false}
+                    fallbackSrc={AVATAR_FALLBACK_SRC}
+                  />
+                </Link>
                 <div className="flex-1">
-                  <h3 className="font-semibold text-gray-900">{post.user.name}</h3>
-                  <p className="text-sm text-gray-500">
-                    {formatDistanceToNow(new Date(post.created_at * 1000), { addSuffix: true })}
-                  </p>
+                  <h3 className="font-semibold text-gray-900">
+                    <Link href={`/users/${post.user.id}`} className="hover:underline">
+                      {post.user.name}
+                    </Link>
+                  </h3>
+                  <Link href={`/post/${post.id}`} className="text-sm text-gray-500 hover:underline">
+                    <time dateTime={new Date(post.created_at * 1000).toISOString()} title={formatLocalDateTime(post.created_at)}>
+                      {formatDistanceToNow(new Date(post.created_at * 1000), { addSuffix: true })}
+                    </time>
+                  </Link>
                 </div>
-                <button className="text-gray-400 hover:text-gray-600">
-                  
-                </button>
+                {user && post.user_id !== user.id && (
+                  <FollowButton
+                    userId={post.user.id}
+                    isFollowing={!!post.user.is_following}
+                    onError={setError}
+                  />
+                )}
+                {user && post.user_id === user.id && (
+                  <PostActionsMenu
+                    canEdit={user.permissions.can_update_post}
+                    canDelete={user.permissions.can_delete_post}
+                    onEdit={() => setEditingPostId(post.id)}
+                    onDelete={() => handleDeletePost(post.id)}
+                  />
+                )}
               </div>
 
-              {/* Post Image */}
-              <div className="relative">
-                <SafeImage
-                  src={post.image_url}
-                  alt={`Post by ${post.user.name}`}
-                  width={600}
-                  height={600}
-                  className="w-full h-auto object-cover"
-                  useProxy={true}
-                  fallbackSrc="https://images.unsplash.com/photo-1506905925346-21bda4d32df4?w=600&h=600&fit=crop"
+              {editingPostId === post.id ? (
+                <EditPostForm
+                  post={post}
+                  onSave={(postData) => handleUpdatePost(post.id, postData)}
+                  onCancel={() => setEditingPostId(null)}
+                  onError={setError}
                 />
-              </div>
+              ) : (
+              <>
+                {/* Post Images */}
+                <PostCarousel post={post} priority={index === 0} />
 
-              {/* Post Actions */}
-              <div className="p-4">
-                <div className="flex items-center space-x-4 mb-3">
-                  <button
-                    onClick={() => handleLike(post.id)}
-                    className={`transition-colors ${
-                      post.is_liked ? 'text-red-500' : 'text-gray-400 hover:text-red-500'
-                    }`}
-                  >
-                    <svg
-                      className="w-7 h-7"
-                      fill={post.is_liked ? 'currentColor' : 'none'}
-                      stroke="currentColor"
-                      viewBox="0 0 24 24"
+                {/* Post Actions */}
+                <div className="p-4">
+                  <div className="flex items-center space-x-4 mb-3">
+                    <button
+                      onClick={() => handleLike(post.id)}
+                      className={`transition-colors ${
+                        post.is_liked ? 'text-red-500' : 'text-gray-400 hover:text-red-500'
+                      }`}
                     >
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        strokeWidth={2}
-                        d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z"
-                      />
-                    </svg>
-                  </button>
-                  <div className="flex-1"></div>
-                </div>
-
-                {/* Likes Count */}
-                <div className="mb-2">
-                  <p className="font-semibold text-gray-900">
-                    {post.likes_count.toLocaleString()} {post.likes_count === 1 ? 'like' : 'likes'}
-                  </p>
-                </div>
+                      <svg
+                        className="w-7 h-7"
+                        fill={post.is_liked ? 'currentColor' : 'none'}
+                        stroke="currentColor"
+                        viewBox="0 0 24 24"
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z"
+                        />
+                      </svg>
+                    </button>
+                    <div className="flex-1"></div>
+                  </div>
 
-                {/* Caption */}
-                <div className="mb-3">
-                  <p className="text-gray-900">
-                    <span className="font-semibold mr-2">{post.user.name}</span>
-                    <br />
-                    {post.content}
-                  </p>
-                </div>
+                  {/* Likes Count */}
+                  <div className="mb-2">
+                    <p className="font-semibold text-gray-900">
+                      {post.likes_count.toLocaleString()} {post.likes_count === 1 ? 'like' : 'likes'}
+                    </p>
+                  </div>
 
-                <div className="mb-3">
-                  <span className="font-semibold mr-2">Komentar :</span>
-                </div>
+                  {/* Caption */}
+                  <div className="mb-3">
+                    <p className="text-gray-900">
+                      <span className="font-semibold mr-2">{post.user.name}</span>
+                      <br />
+                      <RichText text={post.content} />
+                    </p>
+                  </div>
 
-                {/* Comments */}
-                {post.comments.length > 0 && (
                   <div className="mb-3">
-                    {post.comments.length > 2 && (
-                      <button 
-                        onClick={() => toggleComments(post.id)}
-                        className="text-gray-500 text-sm mb-2 hover:text-gray-700 transition-colors cursor-pointer"
-                      >
-                        {expandedComments[post.id] 
-                          ? 'Hide comments' 
-                          : `View all ${post.comments.length} comments`
-                        }
-                      </button>
-                    )}
-                    <div className={`space-y-1 ${expandedComments[post.id] ? 'max-h-96 overflow-y-auto' : ''}`}>
-                      {(expandedComments[post.id] ? post.comments : post.comments.slice(-2)).map((comment) => (
-                        <div key={comment.id} className="text-gray-900">
-                          <p>
-                            <span className="font-semibold mr-2">{comment.user?.name || 'Unknown User'}</span>
-                            {comment.content}
-                          </p>
-                        </div>
-                      ))}
-                    </div>
+                    <span className="font-semibold mr-2">Komentar :</span>
+                  </div>
 
-                    {expandedComments[post.id] && post.comments.length > 5 && (
-                      <div className="mt-2 pt-2 border-t border-gray-100">
+                  {/* Comments */}
+                  {post.comments.length > 0 && (
+                    <div className="mb-3">
+                      {post.comments.length > 2 && (
                         <button 
                           onClick={() => toggleComments(post.id)}
-                          className="text-gray-500 text-sm hover:text-gray-700 transition-colors"
+                          className="text-gray-500 text-sm mb-2 hover:text-gray-700 transition-colors cursor-pointer"
                         >
-                          Show less
+                          {expandedComments[post.id] 
+                            ? 'Hide comments' 
+                            : `View all ${post.comments.length} comments`
+                          }
                         </button>
+                      )}
+                      <div className={`space-y-1 ${expandedComments[post.id] ? 'max-h-96 overflow-y-auto' : ''}`}>
+                        {(expandedComments[post.id] ? post.comments : post.comments.slice(-2)).map((comment) => (
+                          <CommentItem
+                            key={comment.id}
+                            comment={comment}
+                            canEdit={isOwnSavedComment(comment) && !!user?.permissions.can_update_comment}
+                            canDelete={isOwnSavedComment(comment) && !!user?.permissions.can_delete_comment}
+                            onUpdate={(c, content) => handleUpdateComment(post.id, c, content)}
+                            onDelete={(c) => handleDeleteComment(post.id, c)}
+                            isPending={!Number.isInteger(comment.id)}
+                          />
+                        ))}
                       </div>
-                    )}
-                  </div>
-                )}
 
-                {/* Comment Input */}
-                {user?.permissions.can_create_comment ? (
-                <div className="flex items-center space-x-2 pt-3 border-t border-gray-100">
-                  <input
-                    type="text"
-                    placeholder="Add a comment..."
-                    value={newComment[post.id] || ''}
-                    onChange={(e) => handleCommentChange(post.id, e.target.value)}
-                    onKeyPress={(e) => e.key === 'Enter' && handleComment(post.id)}
-                    className="flex-1 text-sm border-none outline-none placeholder-gray-500"
-                  />
-                  <button
-                    onClick={() => handleComment(post.id)}
-                    disabled={!newComment[post.id]?.trim()}
-                    className="text-blue-500 font-semibold text-sm disabled:text-gray-300 disabled:cursor-not-allowed"
-                  >
-                    Post
-                  </button>
-                </div>
-                ) : (
-                  <div className="text-center py-8">
-                    <p className="text-gray-500">You do not have permission to create comments.</p>
+                      {expandedComments[post.id] && post.comments.length > 5 && (
+                        <div className="mt-2 pt-2 border-t border-gray-100">
+                          <button 
+                            onClick={() => toggleComments(post.id)}
+                            className="text-gray-500 text-sm hover:text-gray-700 transition-colors"
+                          >
+                            Show less
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Full thread on the detail page when the feed only embeds part of it */}
+                  {post.comments_count > post.comments.length && (
+                    <Link
+                      href={`/post/${post.id}`}
+                      className="block text-gray-500 text-sm mb-3 hover:text-gray-700 transition-colors"
+                    >
+                      View all {post.comments_count.toLocaleString()} comments on the post page
+                    </Link>
+                  )}
+
+                  {/* Comment Input */}
+                  {user?.permissions.can_create_comment ? (
+                  <div className="flex items-center space-x-2 pt-3 border-t border-gray-100">
+                    <MentionInput
+                      placeholder="Add a comment..."
+                      value={newComment[post.id] || ''}
+                      onValueChange={(value) => handleCommentChange(post.id, value)}
+                      onKeyDown={(e) => e.key === 'Enter' && handleComment(post.id)}
+                      containerClassName="flex-1"
+                      className="w-full text-sm border-none outline-none placeholder-gray-500"
+                    />
+                    <button
+                      onClick={() => handleComment(post.id)}
+                      disabled={!newComment[post.id]?.trim()}
+                      className="text-blue-500 font-semibold text-sm disabled:text-gray-300 disabled:cursor-not-allowed"
+                    >
+                      Post
+                    </button>
                   </div>
-                )}
-              </div>
+                  ) : (
+                    <div className="text-center py-8">
+                      <p className="text-gray-500">You do not have permission to create comments.</p>
+                    </div>
+                  )}
+                </div>
+              </>
+              )}
             </div>
               ))}
 
@@ -566,19 +1006,41 @@ export default function DashboardPage() {
                 </div>
               )}
             </>
-          ) : (
+          ) : !isLoadingPosts && (
             <div className="text-center py-12">
               <div className="text-gray-400 mb-4">
                 <svg className="w-16 h-16 mx-auto" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
                 </svg>
               </div>
-              <h3 className="text-lg font-medium text-gray-900 mb-2">No posts yet</h3>
-              <p className="text-gray-500">Be the first to share something amazing!</p>
+              {feed === 'following' ? (
+                <>
+                  <h3 className="text-lg font-medium text-gray-900 mb-2">Nothing from people you follow</h3>
+                  <p className="text-gray-500">Follow authors from the For you feed to see their posts here.</p>
+                </>
+              ) : (
+                <>
+                  <h3 className="text-lg font-medium text-gray-900 mb-2">No posts yet</h3>
+                  <p className="text-gray-500">Be the first to share something amazing!</p>
+                </>
+              )}
             </div>
           )}
         </div>
       </main>
+
+      {/* Undo Comment Deletion */}
+      {pendingCommentDelete && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 bg-gray-900 text-white text-sm px-4 py-3 rounded-lg shadow-lg flex items-center space-x-4">
+          <span>Comment deleted</span>
+          <button
+            onClick={handleUndoCommentDelete}
+            className="font-semibold text-purple-300 hover:text-purple-200"
+          >
+            Undo
+          </button>
+        </div>
+      )}
     </div>
   );
 }
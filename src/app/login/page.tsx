@@ -5,6 +5,21 @@ import Link from 'next/link';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { apiClient } from '@/lib/api';
 
+// Only same-origin targets; resolving the URL catches tricks like `/\evil.com`, which browsers
+// treat as `//evil.com`
+function getRedirectPath(redirect: string | null): string {
+  if (!redirect) return '/dashboard';
+  try {
+    const url = new URL(redirect, window.location.origin);
+    if (url.origin === window.location.origin) {
+      return `${url.pathname}${url.search}${url.hash}`;
+    }
+  } catch {
+    // Not a URL at all
+  }
+  return '/dashboard';
+}
+
 function LoginForm() {
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -14,6 +29,7 @@ function LoginForm() {
   });
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
+  const isSessionExpired = searchParams.get('expired') === '1';
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -41,8 +57,7 @@ function LoginForm() {
         apiClient.setToken(response.data.token);
         
         // Redirect to the intended page or dashboard
-        const redirectTo = searchParams.get('redirect') || '/dashboard';
-        router.push(redirectTo);
+        router.push(getRedirectPath(searchParams.get('redirect')));
       } else {
         setError(response.message || 'Login failed. Please try again.');
       }
@@ -70,6 +85,12 @@ function LoginForm() {
           </div>
           
           <form className="space-y-6" onSubmit={handleSubmit}>
+            {isSessionExpired && !error && (
+              <div className="bg-yellow-50 border border-yellow-200 text-yellow-700 px-4 py-3 rounded-lg text-sm">
+                Your session has expired. Please sign in again.
+              </div>
+            )}
+
             {error && (
               <div className="bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-lg text-sm">
                 {error}
@@ -0,0 +1,217 @@
+'use client';
+
+import { useEffect, useState, useCallback, useMemo } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { formatDistanceToNow } from 'date-fns';
+import SafeImage, { AVATAR_FALLBACK_SRC } from '@/components/SafeImage';
+import { apiClient } from '@/lib/api';
+import { realtime } from '@/lib/realtime';
+import { groupNotifications, describeNotificationGroup, NotificationGroup } from '@/lib/notifications';
+import { formatLocalDateTime } from '@/lib/schedule';
+import { UserNotification, Pagination } from '@/config/api';
+
+const NOTIFICATIONS_PER_PAGE = 20;
+
+export default function NotificationsPage() {
+  const router = useRouter();
+  const [notifications, setNotifications] = useState<UserNotification[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [isMarkingAll, setIsMarkingAll] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const groups = useMemo(() => groupNotifications(notifications), [notifications]);
+  const hasUnread = notifications.some(n => n.read_at === null);
+  const hasMore = !!pagination && pagination.current_page < pagination.last_page;
+
+  const fetchNotifications = useCallback(async (page: number) => {
+    try {
+      const response = await apiClient.getNotifications(page, NOTIFICATIONS_PER_PAGE);
+      if (response.success && response.data && Array.isArray(response.data.notifications)) {
+        const pageNotifications = response.data.notifications;
+        setNotifications(prev => page === 1
+          ? pageNotifications
+          : [...prev, ...pageNotifications.filter(n => !prev.some(p => p.id === n.id))]
+        );
+        setPagination(response.data.pagination);
+      } else {
+        setError(response.message || 'Failed to load notifications');
+      }
+    } catch {
+      setError('Network error. Please try again.');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!apiClient.isAuthenticated()) {
+      router.push('/login?redirect=/notifications');
+      return;
+    }
+
+    fetchNotifications(1).finally(() => setIsLoading(false));
+
+    // New activity shows up at the top while the page is open
+    return realtime.subscribe((event) => {
+      if (event.type === 'notification.created') {
+        const { notification } = event;
+        setNotifications(prev => prev.some(n => n.id === notification.id) ? prev : [notification, ...prev]);
+      }
+    });
+  }, [router, fetchNotifications]);
+
+  const markRead = (ids: number[]) => {
+    const now = Math.floor(Date.now() / 1000);
+    setNotifications(prev => prev.map(n => ids.includes(n.id) && n.read_at === null ? { ...n, read_at: now } : n));
+  };
+
+  const handleOpenGroup = async (group: NotificationGroup) => {
+    if (group.is_unread) {
+      // Fire and forget; reading the post shouldn't wait on the bookkeeping request
+      markRead(group.notification_ids);
+      apiClient.markNotificationsRead(group.notification_ids);
+    }
+    router.push(`/post/${group.post_id}`);
+  };
+
+  const handleMarkAllRead = async () => {
+    const previous = notifications;
+    setIsMarkingAll(true);
+    markRead(notifications.map(n => n.id));
+
+    try {
+      const response = await apiClient.markAllNotificationsRead();
+      if (!response.success) {
+        setNotifications(previous);
+        setError(response.message || 'Failed to mark notifications as read');
+      }
+    } catch {
+      setNotifications(previous);
+      setError('Network error. Please try again.');
+    } finally {
+      setIsMarkingAll(false);
+    }
+  };
+
+  const handleLoadMore = async () => {
+    if (!pagination) return;
+    setIsLoadingMore(true);
+    await fetchNotifications(pagination.current_page + 1);
+    setIsLoadingMore(false);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-purple-50 to-pink-50">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 to-pink-50">
+      <nav className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center">
+              <Link href="/dashboard" className="text-2xl font-bold bg-gradient-to-r from-purple-600 to-pink-600 bg-clip-text text-transparent">
+                InstaApp
+              </Link>
+            </div>
+            <div className="flex items-center">
+              <Link href="/dashboard" className="text-gray-600 hover:text-gray-900 transition-colors">
+                &larr; Back to feed
+              </Link>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-2xl mx-auto py-6 px-4">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-semibold text-gray-900">Notifications</h2>
+          {hasUnread && (
+            <button
+              onClick={handleMarkAllRead}
+              disabled={isMarkingAll}
+              className="text-sm text-purple-600 hover:text-purple-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Mark all as read
+            </button>
+          )}
+        </div>
+
+        {/* Error Message */}
+        {error && (
+          <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-600 text-sm">{error}</p>
+            <button
+              onClick={() => setError(null)}
+              className="text-red-500 text-xs hover:underline mt-2"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+
+        {groups.length > 0 ? (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 divide-y divide-gray-100">
+            {groups.map((group) => (
+              <button
+                key={group.key}
+                onClick={() => handleOpenGroup(group)}
+                className={`w-full flex items-center p-4 text-left hover:bg-gray-50 transition-colors ${
+                  group.is_unread ? 'bg-purple-50/60' : ''
+                }`}
+              >
+                <SafeImage
+                  src={`https://ui-avatars.com/api/?name=${group.actors[0]?.name ?? 'User'}&background=random`}
+                  alt={group.actors[0]?.name ?? 'User'}
+                  width={40}
+                  height={40}
+                  className="w-10 h-10 rounded-full object-cover mr-3 shrink-0"
+                  useProxy={false}
+                  fallbackSrc={AVATAR_FALLBACK_SRC}
+                />
+                <div className="flex-1">
+                  <p className={`text-gray-900 ${group.is_unread ? 'font-semibold' : ''}`}>
+                    {describeNotificationGroup(group)}
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    <time dateTime={new Date(group.latest_at * 1000).toISOString()} title={formatLocalDateTime(group.latest_at)}>
+                      {formatDistanceToNow(new Date(group.latest_at * 1000), { addSuffix: true })}
+                    </time>
+                  </p>
+                </div>
+                {group.is_unread && (
+                  <span className="w-2.5 h-2.5 rounded-full bg-purple-600 ml-3 shrink-0" aria-label="Unread"></span>
+                )}
+              </button>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-12">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No notifications yet</h3>
+            <p className="text-gray-500">Likes, comments and mentions on your posts will show up here.</p>
+          </div>
+        )}
+
+        {hasMore && (
+          <div className="text-center py-6">
+            <button
+              onClick={handleLoadMore}
+              disabled={isLoadingMore}
+              className="px-6 py-2 bg-white border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isLoadingMore ? 'Loading...' : 'Load more'}
+            </button>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,494 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { formatDistanceToNow } from 'date-fns';
+import SafeImage, { AVATAR_FALLBACK_SRC } from '@/components/SafeImage';
+import MentionInput from '@/components/MentionInput';
+import RichText from '@/components/RichText';
+import PostCarousel from '@/components/PostCarousel';
+import PostActionsMenu from '@/components/PostActionsMenu';
+import EditPostForm from '@/components/EditPostForm';
+import CommentItem from '@/components/CommentItem';
+import { apiClient } from '@/lib/api';
+import { cache, cacheKeys, useCachedComments, useCachedPost } from '@/lib/cache';
+import { realtime, applyRealtimeEventToCache } from '@/lib/realtime';
+import { formatLocalDateTime } from '@/lib/schedule';
+import { Comment, User, UpdatePostRequest } from '@/config/api';
+
+const COMMENTS_PER_PAGE = 20;
+
+export default function PostDetailPage() {
+  const router = useRouter();
+  const params = useParams<{ id: string }>();
+  const postId = Number(params.id);
+  const [user, setUser] = useState<User | null>(null);
+  const [post, setPost] = useCachedPost(postId);
+  const commentsKey = cacheKeys.postComments(postId);
+  const { comments, setComments, pagination: commentsPagination } = useCachedComments(commentsKey);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingComments, setIsLoadingComments] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [newComment, setNewComment] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [notFound, setNotFound] = useState(false);
+
+  const hasMoreComments = !!commentsPagination && commentsPagination.current_page < commentsPagination.last_page;
+
+  const fetchComments = useCallback(async (page: number) => {
+    setIsLoadingComments(true);
+    try {
+      const response = await cache.dedupe(`${commentsKey}:${page}`, () =>
+        apiClient.getPostComments(postId, page, COMMENTS_PER_PAGE)
+      );
+      if (response.success && response.data && Array.isArray(response.data.comments)) {
+        cache.receivePage('comments', commentsKey, response.data.comments, response.data.pagination);
+      } else {
+        setError(response.message || 'Failed to load comments');
+      }
+    } catch {
+      setError('Network error. Please try again.');
+    } finally {
+      setIsLoadingComments(false);
+    }
+  }, [postId, commentsKey]);
+
+  useEffect(() => {
+    if (!apiClient.isAuthenticated()) {
+      router.push(`/login?redirect=/post/${params.id}`);
+      return;
+    }
+
+    if (!Number.isInteger(postId)) {
+      setNotFound(true);
+      setIsLoading(false);
+      return;
+    }
+
+    const fetchData = async () => {
+      try {
+        const [profileResponse, postResponse] = await Promise.all([
+          apiClient.getProfile(),
+          cache.dedupe(`post:${postId}`, () => apiClient.getPost(postId)),
+        ]);
+
+        if (!profileResponse.success || !profileResponse.data) {
+          router.push(`/login?redirect=/post/${params.id}`);
+          return;
+        }
+        setUser(profileResponse.data.user);
+
+        if (postResponse.success && postResponse.data) {
+          cache.writePosts([postResponse.data.post]);
+          if (!cache.isFresh(commentsKey)) {
+            await fetchComments(1);
+          }
+        } else {
+          setNotFound(true);
+        }
+      } catch {
+        setError('Network error. Please try again.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [router, params.id, postId, commentsKey, fetchComments]);
+
+  // Live like counts and comments from other users
+  useEffect(() => {
+    if (!user) return;
+
+    return realtime.subscribe((event) => {
+      applyRealtimeEventToCache(event, user.id);
+      if (event.type === 'comment.created' && event.comment.post_id === postId && event.comment.user_id !== user.id) {
+        const { comment } = event;
+        // Comments arrive oldest first, so a live one belongs at the end once the thread is fully loaded
+        if (!hasMoreComments) {
+          setComments(current => current.some(c => c.id === comment.id) ? current : [...current, comment]);
+        }
+      }
+    });
+  }, [user, postId, hasMoreComments, setComments]);
+
+  const handleLike = async () => {
+    if (!post) return;
+    if (!user?.permissions.can_like_post) {
+      setError('You do not have permission to like posts.');
+      return;
+    }
+
+    const previous = { is_liked: post.is_liked, likes_count: post.likes_count };
+
+    // Optimistic update
+    setPost(current => ({
+      ...current,
+      is_liked: !current.is_liked,
+      likes_count: current.is_liked ? current.likes_count - 1 : current.likes_count + 1
+    }));
+
+    try {
+      const response = previous.is_liked
+        ? await apiClient.unlikePost(post.id)
+        : await apiClient.likePost(post.id);
+
+      if (!response.success) {
+        setPost(current => ({ ...current, ...previous }));
+        setError(response.message || 'Failed to update like');
+      }
+    } catch {
+      setPost(current => ({ ...current, ...previous }));
+      setError('Network error. Please try again.');
+    }
+  };
+
+  const handleUpdatePost = async (postData: UpdatePostRequest) => {
+    if (!post) return;
+
+    try {
+      const response = await apiClient.updatePost(post.id, postData);
+      if (response.success && response.data) {
+        const updatedPost = response.data.post;
+        setPost(current => ({
+          ...current,
+          content: updatedPost.content,
+          image_url: updatedPost.image_url,
+          images: updatedPost.images,
+          publish_at: updatedPost.publish_at,
+          updated_at: updatedPost.updated_at
+        }));
+        setIsEditing(false);
+      } else {
+        setError(response.message || 'Failed to update post');
+      }
+    } catch {
+      setError('Network error. Please try again.');
+    }
+  };
+
+  const handleDeletePost = async () => {
+    if (!post) return;
+
+    const confirmed = window.confirm('Are you sure you want to delete this post?');
+    if (!confirmed) return;
+
+    try {
+      const response = await apiClient.deletePost(post.id);
+      if (response.success) {
+        cache.removePost(post.id);
+        router.push('/dashboard');
+      } else {
+        setError(response.message || 'Failed to delete post');
+      }
+    } catch {
+      setError('Network error. Please try again.');
+    }
+  };
+
+  const handleComment = async () => {
+    const commentText = newComment.trim();
+    if (!commentText || !user || !post) return;
+
+    const tempComment: Comment = {
+      id: Date.now() + Math.random(), // Temporary ID until the server responds
+      post_id: post.id,
+      user_id: user.id,
+      content: commentText,
+      created_at: Math.floor(Date.now() / 1000),
+      user: {
+        id: user.id,
+        name: user.name,
+      }
+    };
+
+    // Optimistic update
+    setComments(current => [...current, tempComment]);
+    setPost(current => ({ ...current, comments_count: current.comments_count + 1 }));
+    setNewComment('');
+
+    const removeTempComment = () => {
+      setComments(current => current.filter(c => c.id !== tempComment.id));
+      setPost(current => ({ ...current, comments_count: current.comments_count - 1 }));
+    };
+
+    try {
+      const response = await apiClient.createComment({ post_id: post.id, content: commentText });
+      if (response.success && response.data) {
+        const savedComment = response.data.comment;
+        setComments(current => current.map(c => c.id === tempComment.id ? savedComment : c));
+        // Keep the comment preview embedded in the feed in sync
+        setPost(current => ({ ...current, comments: [...current.comments, savedComment] }));
+      } else {
+        removeTempComment();
+        setError(response.message || 'Failed to add comment');
+      }
+    } catch {
+      removeTempComment();
+      setError('Network error. Please try again.');
+    }
+  };
+
+  const handleUpdateComment = async (comment: Comment, content: string): Promise<boolean> => {
+    // Optimistic update, applied to the cached entity so the feed preview follows
+    cache.updateComment(comment.id, c => ({ ...c, content }));
+
+    try {
+      const response = await apiClient.updateComment({ post_id: postId, comment_id: comment.id, content });
+      if (response.success) {
+        return true;
+      }
+      setError(response.message || 'Failed to update comment');
+    } catch {
+      setError('Network error. Please try again.');
+    }
+    // Revert optimistic update
+    cache.updateComment(comment.id, c => ({ ...c, content: comment.content }));
+    return false;
+  };
+
+  const handleDeleteComment = async (comment: Comment) => {
+    const confirmed = window.confirm('Delete this comment?');
+    if (!confirmed) return;
+
+    const index = comments.findIndex(c => c.id === comment.id);
+
+    // Optimistic removal
+    setComments(current => current.filter(c => c.id !== comment.id));
+    setPost(current => ({ ...current, comments_count: current.comments_count - 1 }));
+
+    const restoreComment = () => {
+      setComments(current => {
+        const restored = [...current];
+        restored.splice(Math.min(index, restored.length), 0, comment);
+        return restored;
+      });
+      setPost(current => ({ ...current, comments_count: current.comments_count + 1 }));
+    };
+
+    try {
+      const response = await apiClient.deleteComment(postId, comment.id);
+      if (response.success) {
+        // Also drop it from the comment preview embedded in the feed
+        cache.removeComment(comment.id);
+      } else {
+        restoreComment();
+        setError(response.message || 'Failed to delete comment');
+      }
+    } catch {
+      restoreComment();
+      setError('Network error. Please try again.');
+    }
+  };
+
+  // Optimistic comments carry a fractional temporary ID until the server responds
+  const isOwnSavedComment = (comment: Comment) =>
+    !!user && comment.user_id === user.id && Number.isInteger(comment.id);
+
+  // A post already in the cache (e.g. opened from the feed) is shown while the page revalidates
+  if (isLoading && !post) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-purple-50 to-pink-50">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 to-pink-50">
+      <nav className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center">
+              <Link href="/dashboard" className="text-2xl font-bold bg-gradient-to-r from-purple-600 to-pink-600 bg-clip-text text-transparent">
+                InstaApp
+              </Link>
+            </div>
+            <div className="flex items-center">
+              <Link href="/dashboard" className="text-gray-600 hover:text-gray-900 transition-colors">
+                &larr; Back to feed
+              </Link>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-2xl mx-auto py-6 px-4">
+        {/* Error Message */}
+        {error && (
+          <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-600 text-sm">{error}</p>
+            <button
+              onClick={() => setError(null)}
+              className="text-red-500 text-xs hover:underline mt-2"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+
+        {notFound || !post ? (
+          <div className="text-center py-12">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Post not found</h3>
+            <p className="text-gray-500">This post may have been deleted.</p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+            {/* Post Header */}
+            <div className="flex items-center p-4 border-b border-gray-100">
+              <Link href={`/users/${post.user.id}`} className="mr-3 shrink-0">
+                <SafeImage
+                  src={`https://ui-avatars.com/api/?name=${post.user.name}&background=random`}
+                  alt={post.user.name}
+                  width={40}
+                  height={40}
+                  className="w-10 h-10 rounded-full object-cover"
+                  useProxy={false}
+                  fallbackSrc={AVATAR_FALLBACK_SRC}
+                />
+              </Link>
+              <div className="flex-1">
+                <h3 className="font-semibold text-gray-900">
+                  <Link href={`/users/${post.user.id}`} className="hover:underline">
+                    {post.user.name}
+                  </Link>
+                </h3>
+                <p className="text-sm text-gray-500">
+                  <time dateTime={new Date(post.created_at * 1000).toISOString()} title={formatLocalDateTime(post.created_at)}>
+                    {formatDistanceToNow(new Date(post.created_at * 1000), { addSuffix: true })}
+                  </time>
+                </p>
+              </div>
+              {user && post.user_id === user.id && (
+                <PostActionsMenu
+                  canEdit={user.permissions.can_update_post}
+                  canDelete={user.permissions.can_delete_post}
+                  onEdit={() => setIsEditing(true)}
+                  onDelete={handleDeletePost}
+                />
+              )}
+            </div>
+
+            {isEditing ? (
+              <EditPostForm
+                post={post}
+                onSave={handleUpdatePost}
+                onCancel={() => setIsEditing(false)}
+                onError={setError}
+              />
+            ) : (
+              <>
+                {/* Post Images */}
+                <PostCarousel post={post} />
+
+                <div className="p-4">
+                  {/* Post Actions */}
+                  <div className="flex items-center space-x-4 mb-3">
+                    <button
+                      onClick={handleLike}
+                      className={`transition-colors ${
+                        post.is_liked ? 'text-red-500' : 'text-gray-400 hover:text-red-500'
+                      }`}
+                    >
+                      <svg
+                        className="w-7 h-7"
+                        fill={post.is_liked ? 'currentColor' : 'none'}
+                        stroke="currentColor"
+                        viewBox="0 0 24 24"
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z"
+                        />
+                      </svg>
+                    </button>
+                  </div>
+
+                  {/* Likes Count */}
+                  <div className="mb-2">
+                    <p className="font-semibold text-gray-900">
+                      {post.likes_count.toLocaleString()} {post.likes_count === 1 ? 'like' : 'likes'}
+                    </p>
+                  </div>
+
+                  {/* Caption */}
+                  <div className="mb-3">
+                    <p className="text-gray-900">
+                      <span className="font-semibold mr-2">{post.user.name}</span>
+                      <br />
+                      <RichText text={post.content} />
+                    </p>
+                  </div>
+
+                  <div className="mb-3">
+                    <span className="font-semibold mr-2">
+                      Komentar ({post.comments_count.toLocaleString()}) :
+                    </span>
+                  </div>
+
+                  {/* Comments */}
+                  <div className="space-y-1 mb-3">
+                    {comments.map((comment) => (
+                      <CommentItem
+                        key={comment.id}
+                        comment={comment}
+                        canEdit={isOwnSavedComment(comment) && !!user?.permissions.can_update_comment}
+                        canDelete={isOwnSavedComment(comment) && !!user?.permissions.can_delete_comment}
+                        onUpdate={handleUpdateComment}
+                        onDelete={handleDeleteComment}
+                      />
+                    ))}
+                    {comments.length === 0 && !isLoadingComments && (
+                      <p className="text-gray-500 text-sm">No comments yet.</p>
+                    )}
+                  </div>
+
+                  {hasMoreComments && (
+                    <button
+                      onClick={() => fetchComments(commentsPagination!.current_page + 1)}
+                      disabled={isLoadingComments}
+                      className="text-gray-500 text-sm mb-3 hover:text-gray-700 transition-colors disabled:cursor-not-allowed"
+                    >
+                      {isLoadingComments ? 'Loading comments...' : 'Load more comments'}
+                    </button>
+                  )}
+
+                  {/* Comment Input */}
+                  {user?.permissions.can_create_comment ? (
+                    <div className="flex items-center space-x-2 pt-3 border-t border-gray-100">
+                      <MentionInput
+                        placeholder="Add a comment..."
+                        value={newComment}
+                        onValueChange={setNewComment}
+                        onKeyDown={(e) => e.key === 'Enter' && handleComment()}
+                        containerClassName="flex-1"
+                        className="w-full text-sm border-none outline-none placeholder-gray-500"
+                      />
+                      <button
+                        onClick={handleComment}
+                        disabled={!newComment.trim()}
+                        className="text-blue-500 font-semibold text-sm disabled:text-gray-300 disabled:cursor-not-allowed"
+                      >
+                        Post
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="text-center py-8">
+                      <p className="text-gray-500">You do not have permission to create comments.</p>
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
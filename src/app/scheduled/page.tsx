@@ -0,0 +1,235 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { formatDistanceToNow } from 'date-fns';
+import EditPostForm from '@/components/EditPostForm';
+import RichText from '@/components/RichText';
+import SafeImage from '@/components/SafeImage';
+import { Post, UpdatePostRequest } from '@/config/api';
+import { apiClient } from '@/lib/api';
+import { cache, cacheKeys, useCachedPosts } from '@/lib/cache';
+import { formatLocalDateTime, getTimeZoneLabel } from '@/lib/schedule';
+
+const POSTS_PER_PAGE = 20;
+
+// Soonest to go live first, the order the API returns them in
+function byPublishTime(a: Post, b: Post): number {
+  return (a.publish_at ?? 0) - (b.publish_at ?? 0);
+}
+
+export default function ScheduledPostsPage() {
+  const router = useRouter();
+  const postsKey = cacheKeys.scheduledPosts();
+  const { posts, pagination, isCached } = useCachedPosts(postsKey);
+  const [isLoadingPosts, setIsLoadingPosts] = useState(false);
+  const [editingPostId, setEditingPostId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const hasMorePosts = !!pagination && pagination.current_page < pagination.last_page;
+
+  const fetchPosts = useCallback(async (page: number) => {
+    setIsLoadingPosts(true);
+    try {
+      const response = await cache.dedupe(`${postsKey}:${page}`, () =>
+        apiClient.getScheduledPosts(page, POSTS_PER_PAGE)
+      );
+      if (response.success && response.data && Array.isArray(response.data.posts)) {
+        cache.receivePage('posts', postsKey, response.data.posts, response.data.pagination);
+      } else {
+        setError(response.message || 'Failed to load scheduled posts');
+      }
+    } catch {
+      setError('Network error. Please try again.');
+    } finally {
+      setIsLoadingPosts(false);
+    }
+  }, [postsKey]);
+
+  useEffect(() => {
+    if (!apiClient.isAuthenticated()) {
+      router.push('/login?redirect=/scheduled');
+      return;
+    }
+
+    if (!cache.isFresh(postsKey)) {
+      fetchPosts(1);
+    }
+  }, [router, postsKey, fetchPosts]);
+
+  const handleUpdatePost = async (post: Post, postData: UpdatePostRequest) => {
+    try {
+      const response = await apiClient.updatePost(post.id, postData);
+      if (response.success && response.data) {
+        const updatedPost = response.data.post;
+        cache.setList('posts', postsKey, current => current
+          .map(p => p.id === updatedPost.id ? { ...p, ...updatedPost } : p)
+          // Published in the meantime: it belongs in the feed now, not here
+          .filter(p => !!p.publish_at)
+          .sort(byPublishTime)
+        );
+        if (!updatedPost.publish_at) {
+          cache.invalidate(cacheKeys.feed());
+        }
+        setEditingPostId(null);
+      } else {
+        setError(response.message || 'Failed to update post');
+      }
+    } catch {
+      setError('Network error. Please try again.');
+    }
+  };
+
+  const handleCancelPost = async (post: Post) => {
+    const confirmed = window.confirm('Cancel this scheduled post? It will be deleted and never published.');
+    if (!confirmed) return;
+
+    try {
+      const response = await apiClient.deletePost(post.id);
+      if (response.success) {
+        cache.removePost(post.id);
+      } else {
+        setError(response.message || 'Failed to cancel post');
+      }
+    } catch {
+      setError('Network error. Please try again.');
+    }
+  };
+
+  if (isLoadingPosts && !isCached) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-purple-50 to-pink-50">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 to-pink-50">
+      <nav className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center">
+              <Link href="/dashboard" className="text-2xl font-bold bg-gradient-to-r from-purple-600 to-pink-600 bg-clip-text text-transparent">
+                InstaApp
+              </Link>
+            </div>
+            <div className="flex items-center">
+              <Link href="/dashboard" className="text-gray-600 hover:text-gray-900 transition-colors">
+                &larr; Back to feed
+              </Link>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-2xl mx-auto py-6 px-4">
+        {/* Error Message */}
+        {error && (
+          <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-600 text-sm">{error}</p>
+            <button
+              onClick={() => setError(null)}
+              className="text-red-500 text-xs hover:underline mt-2"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+
+        {/* Header */}
+        <div className="mb-6 bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h2 className="text-2xl font-semibold text-gray-900">Scheduled</h2>
+          <p className="text-sm text-gray-500 mt-2">
+            Posts waiting to be published. Times are shown in your timezone, {getTimeZoneLabel()}.
+          </p>
+        </div>
+
+        {/* Scheduled Posts */}
+        {posts.length > 0 ? (
+          <div className="space-y-4">
+            {posts.map((post) => (
+              <div key={post.id} className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+                {editingPostId === post.id ? (
+                  <EditPostForm
+                    post={post}
+                    onSave={(postData) => handleUpdatePost(post, postData)}
+                    onCancel={() => setEditingPostId(null)}
+                    onError={setError}
+                  />
+                ) : (
+                  <div className="flex gap-4 p-4">
+                    <SafeImage
+                      src={post.image_url}
+                      alt="Scheduled post"
+                      width={96}
+                      height={96}
+                      className="w-24 h-24 shrink-0 rounded-lg object-cover"
+                      useProxy={true}
+                      placeholder={post.image_placeholders?.[0]}
+                    />
+                    <div className="min-w-0 flex-1">
+                      {post.publish_at && (
+                        <>
+                          <p className="text-sm font-semibold text-purple-700">
+                            <time dateTime={new Date(post.publish_at * 1000).toISOString()}>
+                              Publishes {formatLocalDateTime(post.publish_at)}
+                            </time>
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {formatDistanceToNow(new Date(post.publish_at * 1000), { addSuffix: true })}
+                            {post.images.length > 1 && <> &middot; {post.images.length} images</>}
+                          </p>
+                        </>
+                      )}
+                      <p className="text-gray-900 text-sm mt-2 line-clamp-3">
+                        <RichText text={post.content} />
+                      </p>
+                      <div className="flex items-center space-x-4 mt-3">
+                        <button
+                          onClick={() => setEditingPostId(post.id)}
+                          className="text-sm text-purple-600 hover:text-purple-800 transition-colors"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleCancelPost(post)}
+                          className="text-sm text-red-600 hover:text-red-800 transition-colors"
+                        >
+                          Cancel post
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          !isLoadingPosts && (
+            <div className="text-center py-12">
+              <h3 className="text-lg font-medium text-gray-900 mb-2">Nothing scheduled</h3>
+              <p className="text-gray-500">Choose &ldquo;Schedule for later&rdquo; when creating a post to queue it here.</p>
+            </div>
+          )
+        )}
+
+        {hasMorePosts && (
+          <div className="text-center py-6">
+            <button
+              onClick={() => fetchPosts(pagination!.current_page + 1)}
+              disabled={isLoadingPosts}
+              className="px-6 py-2 bg-white border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isLoadingPosts ? 'Loading...' : 'Load more'}
+            </button>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
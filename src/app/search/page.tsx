@@ -0,0 +1,275 @@
+'use client';
+
+import { useEffect, useState, Suspense } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import SafeImage, { AVATAR_FALLBACK_SRC } from '@/components/SafeImage';
+import SearchBox from '@/components/SearchBox';
+import PostGrid from '@/components/PostGrid';
+import { apiClient } from '@/lib/api';
+import { cache } from '@/lib/cache';
+import { toMentionHandle } from '@/lib/richText';
+import { Pagination, Post, SearchType, Tag, UserProfile } from '@/config/api';
+
+const SEARCH_TABS: { type: SearchType; label: string }[] = [
+  { type: 'users', label: 'Users' },
+  { type: 'posts', label: 'Posts' },
+  { type: 'tags', label: 'Tags' },
+];
+
+const PER_PAGE: Record<SearchType, number> = { users: 20, posts: 12, tags: 20 };
+
+interface SearchResults {
+  users: UserProfile[];
+  posts: Post[];
+  tags: Tag[];
+  pagination: Pagination | null;
+}
+
+const EMPTY_RESULTS: SearchResults = { users: [], posts: [], tags: [], pagination: null };
+
+function isSearchType(value: string | null): value is SearchType {
+  return SEARCH_TABS.some(tab => tab.type === value);
+}
+
+// Fetches one page of results for the tab; only the matching list is filled in
+async function searchPage(type: SearchType, query: string, page: number): Promise<{ results?: SearchResults; error?: string }> {
+  try {
+    if (type === 'users') {
+      const response = await apiClient.searchUsers(query, page, PER_PAGE.users);
+      if (response.success && response.data && Array.isArray(response.data.users)) {
+        return { results: { ...EMPTY_RESULTS, users: response.data.users, pagination: response.data.pagination } };
+      }
+      return { error: response.message || 'Search failed' };
+    }
+
+    if (type === 'posts') {
+      const response = await apiClient.searchPosts(query, page, PER_PAGE.posts);
+      if (response.success && response.data && Array.isArray(response.data.posts)) {
+        // Opening a result then shows the post instantly from the cache
+        cache.writePosts(response.data.posts);
+        return { results: { ...EMPTY_RESULTS, posts: response.data.posts, pagination: response.data.pagination } };
+      }
+      return { error: response.message || 'Search failed' };
+    }
+
+    const response = await apiClient.searchTags(query, page, PER_PAGE.tags);
+    if (response.success && response.data && Array.isArray(response.data.tags)) {
+      return { results: { ...EMPTY_RESULTS, tags: response.data.tags, pagination: response.data.pagination } };
+    }
+    return { error: response.message || 'Search failed' };
+  } catch {
+    return { error: 'Network error. Please try again.' };
+  }
+}
+
+function SearchContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const query = searchParams.get('q')?.trim() ?? '';
+  const typeParam = searchParams.get('type');
+  const type: SearchType = isSearchType(typeParam) ? typeParam : 'users';
+  const resultsKey = `${type}:${query}`;
+
+  // Results remember which search they belong to, so a new query or tab reads as loading
+  const [results, setResults] = useState<SearchResults & { key: string } | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isLoading = query !== '' && results?.key !== resultsKey;
+  const pagination = results?.pagination ?? null;
+  const hasMore = !isLoading && !!pagination && pagination.current_page < pagination.last_page;
+
+  useEffect(() => {
+    if (!apiClient.isAuthenticated()) {
+      router.push(`/login?redirect=${encodeURIComponent(`/search?${searchParams}`)}`);
+    }
+  }, [router, searchParams]);
+
+  useEffect(() => {
+    if (!query) return;
+
+    let cancelled = false;
+    searchPage(type, query, 1).then(({ results: page, error: message }) => {
+      if (cancelled) return;
+      setResults({ key: `${type}:${query}`, ...(page ?? EMPTY_RESULTS) });
+      setError(message ?? null);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [type, query]);
+
+  const selectTab = (tab: SearchType) => {
+    const params = new URLSearchParams(searchParams.toString());
+    params.set('type', tab);
+    // A new history entry per tab, so back returns to the previous one
+    router.push(`/search?${params}`);
+  };
+
+  const handleLoadMore = async () => {
+    if (!results || !pagination) return;
+
+    setIsLoadingMore(true);
+    const { results: page, error: message } = await searchPage(type, query, pagination.current_page + 1);
+    setIsLoadingMore(false);
+
+    if (!page) {
+      setError(message ?? null);
+      return;
+    }
+    setResults(current => current && current.key === resultsKey ? {
+      key: current.key,
+      users: [...current.users, ...page.users.filter(u => !current.users.some(c => c.id === u.id))],
+      posts: [...current.posts, ...page.posts.filter(p => !current.posts.some(c => c.id === p.id))],
+      tags: [...current.tags, ...page.tags.filter(t => !current.tags.some(c => c.name === t.name))],
+      pagination: page.pagination,
+    } : current);
+  };
+
+  const visible = !isLoading && results ? results : EMPTY_RESULTS;
+  const isEmpty = visible.users.length === 0 && visible.posts.length === 0 && visible.tags.length === 0;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 to-pink-50">
+      <nav className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center">
+              <Link href="/dashboard" className="text-2xl font-bold bg-gradient-to-r from-purple-600 to-pink-600 bg-clip-text text-transparent">
+                InstaApp
+              </Link>
+            </div>
+            <SearchBox initialQuery={query} autoFocus />
+            <div className="flex items-center">
+              <Link href="/dashboard" className="text-gray-600 hover:text-gray-900 transition-colors">
+                &larr; Back to feed
+              </Link>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-4xl mx-auto py-6 px-4">
+        {/* Error Message */}
+        {error && (
+          <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-600 text-sm">{error}</p>
+            <button
+              onClick={() => setError(null)}
+              className="text-red-500 text-xs hover:underline mt-2"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+
+        {/* Result Tabs */}
+        <div className="flex mb-6 bg-white rounded-lg shadow-sm border border-gray-200 p-1">
+          {SEARCH_TABS.map((tab) => (
+            <button
+              key={tab.type}
+              onClick={() => selectTab(tab.type)}
+              className={`flex-1 py-2 text-sm font-semibold rounded-md transition-colors ${
+                type === tab.type
+                  ? 'bg-gradient-to-r from-purple-600 to-pink-600 text-white'
+                  : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        {!query ? (
+          <div className="text-center py-12">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Search InstaApp</h3>
+            <p className="text-gray-500">Find people, posts and #tags.</p>
+          </div>
+        ) : isLoading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Searching...</p>
+          </div>
+        ) : isEmpty ? (
+          <div className="text-center py-12">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No results</h3>
+            <p className="text-gray-500">Nothing matches &ldquo;{query}&rdquo;.</p>
+          </div>
+        ) : (
+          <>
+            {visible.users.length > 0 && (
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 divide-y divide-gray-100">
+                {visible.users.map((user) => (
+                  <Link key={user.id} href={`/users/${user.id}`} className="flex items-center p-4 hover:bg-gray-50 transition-colors">
+                    <SafeImage
+                      src={`https://ui-avatars.com/api/?name=${user.name}&background=random`}
+                      alt={user.name}
+                      width={40}
+                      height={40}
+                      className="w-10 h-10 rounded-full object-cover mr-3"
+                      useProxy={false}
+                      fallbackSrc={AVATAR_FALLBACK_SRC}
+                    />
+                    <div>
+                      <p className="font-semibold text-gray-900">{user.name}</p>
+                      <p className="text-sm text-gray-500">
+                        @{toMentionHandle(user.name)}
+                        {user.followers_count !== undefined && (
+                          <> &middot; {user.followers_count.toLocaleString()} {user.followers_count === 1 ? 'follower' : 'followers'}</>
+                        )}
+                      </p>
+                    </div>
+                  </Link>
+                ))}
+              </div>
+            )}
+
+            {visible.posts.length > 0 && <PostGrid posts={visible.posts} />}
+
+            {visible.tags.length > 0 && (
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 divide-y divide-gray-100">
+                {visible.tags.map((tag) => (
+                  <Link key={tag.name} href={`/tags/${encodeURIComponent(tag.name)}`} className="flex items-center justify-between p-4 hover:bg-gray-50 transition-colors">
+                    <span className="font-semibold text-gray-900">#{tag.name}</span>
+                    <span className="text-sm text-gray-500">
+                      {tag.posts_count.toLocaleString()} {tag.posts_count === 1 ? 'post' : 'posts'}
+                    </span>
+                  </Link>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+
+        {hasMore && (
+          <div className="text-center py-6">
+            <button
+              onClick={handleLoadMore}
+              disabled={isLoadingMore}
+              className="px-6 py-2 bg-white border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isLoadingMore ? 'Loading...' : 'Load more'}
+            </button>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
+
+export default function SearchPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-purple-50 to-pink-50">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading...</p>
+        </div>
+      </div>
+    }>
+      <SearchContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,317 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { apiClient } from '@/lib/api';
+import { ApiResponse } from '@/config/api';
+
+type FieldErrors = NonNullable<ApiResponse['errors']>;
+
+const inputClassName = 'w-full px-4 py-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-200 disabled:bg-gray-100 disabled:cursor-not-allowed';
+
+function FieldError({ errors, field }: { errors: FieldErrors; field: string }) {
+  if (!errors[field]?.length) return null;
+  return (
+    <div className="mt-1 space-y-0.5">
+      {errors[field].map((message) => (
+        <p key={message} className="text-xs text-red-600">{message}</p>
+      ))}
+    </div>
+  );
+}
+
+export default function SettingsPage() {
+  const router = useRouter();
+  const [isLoading, setIsLoading] = useState(true);
+
+  const [profileData, setProfileData] = useState({ name: '', email: '' });
+  const [profileErrors, setProfileErrors] = useState<FieldErrors>({});
+  const [profileMessage, setProfileMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [isSavingProfile, setIsSavingProfile] = useState(false);
+
+  const [passwordData, setPasswordData] = useState({
+    current_password: '',
+    password: '',
+    password_confirmation: '',
+  });
+  const [passwordErrors, setPasswordErrors] = useState<FieldErrors>({});
+  const [passwordMessage, setPasswordMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [isSavingPassword, setIsSavingPassword] = useState(false);
+
+  useEffect(() => {
+    if (!apiClient.isAuthenticated()) {
+      router.push('/login?redirect=/settings');
+      return;
+    }
+
+    const fetchProfile = async () => {
+      try {
+        const response = await apiClient.getProfile();
+        if (response.success && response.data) {
+          setProfileData({
+            name: response.data.user.name,
+            email: response.data.user.email,
+          });
+        } else {
+          router.push('/login?redirect=/settings');
+        }
+      } catch {
+        router.push('/login?redirect=/settings');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchProfile();
+  }, [router]);
+
+  const handleProfileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setProfileData({ ...profileData, [name]: value });
+    // Clear the error for the field being edited
+    if (profileErrors[name]) {
+      setProfileErrors({ ...profileErrors, [name]: [] });
+    }
+    setProfileMessage(null);
+  };
+
+  const handlePasswordChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setPasswordData({ ...passwordData, [name]: value });
+    // Clear the error for the field being edited
+    if (passwordErrors[name]) {
+      setPasswordErrors({ ...passwordErrors, [name]: [] });
+    }
+    setPasswordMessage(null);
+  };
+
+  const handleProfileSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSavingProfile(true);
+    setProfileErrors({});
+    setProfileMessage(null);
+
+    try {
+      const response = await apiClient.updateProfile(profileData);
+      if (response.success && response.data) {
+        setProfileData({
+          name: response.data.user.name,
+          email: response.data.user.email,
+        });
+        setProfileMessage({ type: 'success', text: response.message || 'Profile updated successfully.' });
+      } else {
+        setProfileErrors(response.errors || {});
+        setProfileMessage({ type: 'error', text: response.message || 'Failed to update profile.' });
+      }
+    } catch {
+      setProfileMessage({ type: 'error', text: 'An unexpected error occurred. Please try again.' });
+    } finally {
+      setIsSavingProfile(false);
+    }
+  };
+
+  const handlePasswordSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPasswordErrors({});
+    setPasswordMessage(null);
+
+    // Client-side validation, reported in the same shape as the API
+    if (passwordData.password !== passwordData.password_confirmation) {
+      setPasswordErrors({ password_confirmation: ['Passwords do not match'] });
+      return;
+    }
+
+    setIsSavingPassword(true);
+    try {
+      const response = await apiClient.changePassword(passwordData);
+      if (response.success) {
+        setPasswordData({ current_password: '', password: '', password_confirmation: '' });
+        setPasswordMessage({ type: 'success', text: response.message || 'Password changed successfully.' });
+      } else {
+        setPasswordErrors(response.errors || {});
+        setPasswordMessage({ type: 'error', text: response.message || 'Failed to change password.' });
+      }
+    } catch {
+      setPasswordMessage({ type: 'error', text: 'An unexpected error occurred. Please try again.' });
+    } finally {
+      setIsSavingPassword(false);
+    }
+  };
+
+  const fieldClassName = (errors: FieldErrors, field: string) =>
+    `${inputClassName} ${errors[field]?.length ? 'border-red-400' : 'border-gray-300'}`;
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-purple-50 to-pink-50">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 to-pink-50">
+      <nav className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center">
+              <Link href="/dashboard" className="text-2xl font-bold bg-gradient-to-r from-purple-600 to-pink-600 bg-clip-text text-transparent">
+                InstaApp
+              </Link>
+            </div>
+            <div className="flex items-center">
+              <Link href="/dashboard" className="text-gray-600 hover:text-gray-900 transition-colors">
+                &larr; Back to feed
+              </Link>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-2xl mx-auto py-6 px-4 space-y-6">
+        <h2 className="text-2xl font-semibold text-gray-900">Settings</h2>
+
+        {/* Profile Form */}
+        <form onSubmit={handleProfileSubmit} className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+          <h3 className="text-lg font-semibold text-gray-900">Profile</h3>
+
+          {profileMessage && (
+            <div className={`px-4 py-3 rounded-lg text-sm border ${
+              profileMessage.type === 'success'
+                ? 'bg-green-50 border-green-200 text-green-700'
+                : 'bg-red-50 border-red-200 text-red-600'
+            }`}>
+              {profileMessage.text}
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-1">
+              Full Name
+            </label>
+            <input
+              id="name"
+              name="name"
+              type="text"
+              autoComplete="name"
+              required
+              disabled={isSavingProfile}
+              className={fieldClassName(profileErrors, 'name')}
+              value={profileData.name}
+              onChange={handleProfileChange}
+            />
+            <FieldError errors={profileErrors} field="name" />
+          </div>
+          <div>
+            <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">
+              Email
+            </label>
+            <input
+              id="email"
+              name="email"
+              type="email"
+              autoComplete="email"
+              required
+              disabled={isSavingProfile}
+              className={fieldClassName(profileErrors, 'email')}
+              value={profileData.email}
+              onChange={handleProfileChange}
+            />
+            <FieldError errors={profileErrors} field="email" />
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={isSavingProfile}
+              className="px-6 py-2 bg-gradient-to-r from-purple-600 to-pink-600 text-white rounded-lg hover:from-purple-700 hover:to-pink-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+            >
+              {isSavingProfile ? 'Saving...' : 'Save Profile'}
+            </button>
+          </div>
+        </form>
+
+        {/* Password Form */}
+        <form onSubmit={handlePasswordSubmit} className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+          <h3 className="text-lg font-semibold text-gray-900">Change Password</h3>
+
+          {passwordMessage && (
+            <div className={`px-4 py-3 rounded-lg text-sm border ${
+              passwordMessage.type === 'success'
+                ? 'bg-green-50 border-green-200 text-green-700'
+                : 'bg-red-50 border-red-200 text-red-600'
+            }`}>
+              {passwordMessage.text}
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="current_password" className="block text-sm font-medium text-gray-700 mb-1">
+              Current Password
+            </label>
+            <input
+              id="current_password"
+              name="current_password"
+              type="password"
+              autoComplete="current-password"
+              required
+              disabled={isSavingPassword}
+              className={fieldClassName(passwordErrors, 'current_password')}
+              value={passwordData.current_password}
+              onChange={handlePasswordChange}
+            />
+            <FieldError errors={passwordErrors} field="current_password" />
+          </div>
+          <div>
+            <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-1">
+              New Password
+            </label>
+            <input
+              id="password"
+              name="password"
+              type="password"
+              autoComplete="new-password"
+              required
+              disabled={isSavingPassword}
+              className={fieldClassName(passwordErrors, 'password')}
+              value={passwordData.password}
+              onChange={handlePasswordChange}
+            />
+            <FieldError errors={passwordErrors} field="password" />
+          </div>
+          <div>
+            <label htmlFor="password_confirmation" className="block text-sm font-medium text-gray-700 mb-1">
+              Confirm New Password
+            </label>
+            <input
+              id="password_confirmation"
+              name="password_confirmation"
+              type="password"
+              autoComplete="new-password"
+              required
+              disabled={isSavingPassword}
+              className={fieldClassName(passwordErrors, 'password_confirmation')}
+              value={passwordData.password_confirmation}
+              onChange={handlePasswordChange}
+            />
+            <FieldError errors={passwordErrors} field="password_confirmation" />
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={isSavingPassword}
+              className="px-6 py-2 bg-gradient-to-r from-purple-600 to-pink-600 text-white rounded-lg hover:from-purple-700 hover:to-pink-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+            >
+              {isSavingPassword ? 'Updating...' : 'Change Password'}
+            </button>
+          </div>
+        </form>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import PostGrid from '@/components/PostGrid';
+import { apiClient } from '@/lib/api';
+import { cache, cacheKeys, useCachedPosts } from '@/lib/cache';
+
+const POSTS_PER_PAGE = 12;
+
+export default function TagPage() {
+  const router = useRouter();
+  const params = useParams<{ tag: string }>();
+  const tag = decodeURIComponent(params.tag).toLowerCase();
+  const postsKey = cacheKeys.tagPosts(tag);
+  const { posts, pagination, isCached } = useCachedPosts(postsKey);
+  const [isLoadingPosts, setIsLoadingPosts] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const hasMorePosts = !!pagination && pagination.current_page < pagination.last_page;
+
+  const fetchPosts = useCallback(async (page: number) => {
+    setIsLoadingPosts(true);
+    try {
+      const response = await cache.dedupe(`${postsKey}:${page}`, () =>
+        apiClient.getTagPosts(tag, page, POSTS_PER_PAGE)
+      );
+      if (response.success && response.data && Array.isArray(response.data.posts)) {
+        cache.receivePage('posts', postsKey, response.data.posts, response.data.pagination);
+      } else {
+        setError(response.message || 'Failed to load posts');
+      }
+    } catch {
+      setError('Network error. Please try again.');
+    } finally {
+      setIsLoadingPosts(false);
+    }
+  }, [tag, postsKey]);
+
+  useEffect(() => {
+    if (!apiClient.isAuthenticated()) {
+      router.push(`/login?redirect=/tags/${params.tag}`);
+      return;
+    }
+
+    if (!cache.isFresh(postsKey)) {
+      fetchPosts(1);
+    }
+  }, [router, params.tag, postsKey, fetchPosts]);
+
+  if (isLoadingPosts && !isCached) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-purple-50 to-pink-50">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 to-pink-50">
+      <nav className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center">
+              <Link href="/dashboard" className="text-2xl font-bold bg-gradient-to-r from-purple-600 to-pink-600 bg-clip-text text-transparent">
+                InstaApp
+              </Link>
+            </div>
+            <div className="flex items-center">
+              <Link href="/dashboard" className="text-gray-600 hover:text-gray-900 transition-colors">
+                &larr; Back to feed
+              </Link>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-4xl mx-auto py-6 px-4">
+        {/* Error Message */}
+        {error && (
+          <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-600 text-sm">{error}</p>
+            <button
+              onClick={() => setError(null)}
+              className="text-red-500 text-xs hover:underline mt-2"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+
+        {/* Tag Header */}
+        <div className="mb-8 bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h2 className="text-2xl font-semibold text-gray-900">#{tag}</h2>
+          {pagination && (
+            <p className="text-gray-900 mt-2">
+              <span className="font-semibold">{pagination.total.toLocaleString()}</span>{' '}
+              {pagination.total === 1 ? 'post' : 'posts'}
+            </p>
+          )}
+        </div>
+
+        {/* Posts Grid */}
+        {posts.length > 0 ? (
+          <PostGrid posts={posts} />
+        ) : (
+          !isLoadingPosts && (
+            <div className="text-center py-12">
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No posts yet</h3>
+              <p className="text-gray-500">Nobody has tagged a post with #{tag} yet.</p>
+            </div>
+          )
+        )}
+
+        {hasMorePosts && (
+          <div className="text-center py-6">
+            <button
+              onClick={() => fetchPosts(pagination!.current_page + 1)}
+              disabled={isLoadingPosts}
+              className="px-6 py-2 bg-white border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isLoadingPosts ? 'Loading...' : 'Load more'}
+            </button>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
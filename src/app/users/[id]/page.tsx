@@ -0,0 +1,216 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import SafeImage, { AVATAR_FALLBACK_SRC } from '@/components/SafeImage';
+import FollowButton from '@/components/FollowButton';
+import PostGrid from '@/components/PostGrid';
+import { apiClient } from '@/lib/api';
+import { cache, cacheKeys, useCachedPosts, useCachedUser } from '@/lib/cache';
+
+const POSTS_PER_PAGE = 12;
+
+export default function UserProfilePage() {
+  const router = useRouter();
+  const params = useParams<{ id: string }>();
+  const userId = Number(params.id);
+  const profile = useCachedUser(userId);
+  const postsKey = cacheKeys.userPosts(userId);
+  const { posts, pagination } = useCachedPosts(postsKey);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingPosts, setIsLoadingPosts] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notFound, setNotFound] = useState(false);
+  const [viewerId, setViewerId] = useState<number | null>(null);
+
+  const hasMorePosts = !!pagination && pagination.current_page < pagination.last_page;
+
+  const fetchPosts = useCallback(async (page: number) => {
+    setIsLoadingPosts(true);
+    try {
+      const response = await cache.dedupe(`${postsKey}:${page}`, () =>
+        apiClient.getUserPosts(userId, page, POSTS_PER_PAGE)
+      );
+      if (response.success && response.data && Array.isArray(response.data.posts)) {
+        cache.receivePage('posts', postsKey, response.data.posts, response.data.pagination);
+      } else {
+        setError(response.message || 'Failed to load posts');
+      }
+    } catch {
+      setError('Network error. Please try again.');
+    } finally {
+      setIsLoadingPosts(false);
+    }
+  }, [userId, postsKey]);
+
+  useEffect(() => {
+    if (!apiClient.isAuthenticated()) {
+      router.push(`/login?redirect=/users/${params.id}`);
+      return;
+    }
+
+    if (!Number.isInteger(userId)) {
+      setNotFound(true);
+      setIsLoading(false);
+      return;
+    }
+
+    const fetchData = async () => {
+      try {
+        const [response, viewerResponse] = await Promise.all([
+          cache.dedupe(`user:${userId}`, () => apiClient.getUser(userId)),
+          apiClient.getProfile(),
+        ]);
+        if (viewerResponse.success && viewerResponse.data) {
+          setViewerId(viewerResponse.data.user.id);
+        }
+        if (response.success && response.data) {
+          cache.writeUser(response.data.user);
+          if (!cache.isFresh(postsKey)) {
+            await fetchPosts(1);
+          }
+        } else {
+          setNotFound(true);
+        }
+      } catch {
+        setError('Network error. Please try again.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [router, params.id, userId, postsKey, fetchPosts]);
+
+  // Authors already known from the feed are shown while the full profile loads
+  if (isLoading && !profile) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-purple-50 to-pink-50">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 to-pink-50">
+      <nav className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center">
+              <Link href="/dashboard" className="text-2xl font-bold bg-gradient-to-r from-purple-600 to-pink-600 bg-clip-text text-transparent">
+                InstaApp
+              </Link>
+            </div>
+            <div className="flex items-center">
+              <Link href="/dashboard" className="text-gray-600 hover:text-gray-900 transition-colors">
+                &larr; Back to feed
+              </Link>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-4xl mx-auto py-6 px-4">
+        {/* Error Message */}
+        {error && (
+          <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-600 text-sm">{error}</p>
+            <button
+              onClick={() => setError(null)}
+              className="text-red-500 text-xs hover:underline mt-2"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+
+        {notFound || !profile ? (
+          <div className="text-center py-12">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">User not found</h3>
+            <p className="text-gray-500">This account may no longer exist.</p>
+          </div>
+        ) : (
+          <>
+            {/* Profile Header */}
+            <div className="flex items-center space-x-6 mb-8 bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <SafeImage
+                src={`https://ui-avatars.com/api/?name=${profile.name}&background=random&size=160`}
+                alt={profile.name}
+                width={96}
+                height={96}
+                className="w-24 h-24 rounded-full object-cover"
+                useProxy={false}
+                fallbackSrc={AVATAR_FALLBACK_SRC}
+              />
+              <div>
+                <div className="flex items-center space-x-4">
+                  <h2 className="text-2xl font-semibold text-gray-900">{profile.name}</h2>
+                  {viewerId !== null && viewerId !== profile.id && (
+                    <FollowButton
+                      userId={profile.id}
+                      isFollowing={!!profile.is_following}
+                      onError={setError}
+                    />
+                  )}
+                </div>
+                {profile.created_at && (
+                  <p className="text-sm text-gray-500 mt-1">
+                    Joined {format(new Date(profile.created_at), 'MMMM yyyy')}
+                  </p>
+                )}
+                <div className="flex space-x-6 text-gray-900 mt-2">
+                  {profile.posts_count !== undefined && (
+                    <p>
+                      <span className="font-semibold">{profile.posts_count.toLocaleString()}</span>{' '}
+                      {profile.posts_count === 1 ? 'post' : 'posts'}
+                    </p>
+                  )}
+                  {profile.followers_count !== undefined && (
+                    <p>
+                      <span className="font-semibold">{profile.followers_count.toLocaleString()}</span>{' '}
+                      {profile.followers_count === 1 ? 'follower' : 'followers'}
+                    </p>
+                  )}
+                  {profile.following_count !== undefined && (
+                    <p>
+                      <span className="font-semibold">{profile.following_count.toLocaleString()}</span> following
+                    </p>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            {/* Posts Grid */}
+            {posts.length > 0 ? (
+              <PostGrid posts={posts} />
+            ) : (
+              !isLoadingPosts && (
+                <div className="text-center py-12">
+                  <h3 className="text-lg font-medium text-gray-900 mb-2">No posts yet</h3>
+                  <p className="text-gray-500">{profile.name} hasn&apos;t shared anything yet.</p>
+                </div>
+              )
+            )}
+
+            {hasMorePosts && (
+              <div className="text-center py-6">
+                <button
+                  onClick={() => fetchPosts(pagination!.current_page + 1)}
+                  disabled={isLoadingPosts}
+                  className="px-6 py-2 bg-white border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {isLoadingPosts ? 'Loading...' : 'Load more'}
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { apiClient } from '@/lib/api';
+import { cache } from '@/lib/cache';
+
+// Target of @mention links: resolves the handle and replaces the URL with the user's profile
+export default function UserByNamePage() {
+  const router = useRouter();
+  const params = useParams<{ name: string }>();
+  const name = decodeURIComponent(params.name);
+  const [notFound, setNotFound] = useState(false);
+
+  useEffect(() => {
+    if (!apiClient.isAuthenticated()) {
+      router.push(`/login?redirect=/users/by-name/${params.name}`);
+      return;
+    }
+
+    const resolve = async () => {
+      const response = await apiClient.getUserByName(name);
+      if (response.success && response.data) {
+        cache.writeUser(response.data.user);
+        router.replace(`/users/${response.data.user.id}`);
+      } else {
+        setNotFound(true);
+      }
+    };
+
+    resolve();
+  }, [router, params.name, name]);
+
+  if (!notFound) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-purple-50 to-pink-50">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-purple-50 to-pink-50">
+      <div className="text-center">
+        <h3 className="text-lg font-medium text-gray-900 mb-2">User not found</h3>
+        <p className="text-gray-500 mb-4">Nobody goes by @{name}.</p>
+        <Link href="/dashboard" className="text-purple-600 hover:text-purple-500">
+          &larr; Back to feed
+        </Link>
+      </div>
+    </div>
+  );
+}
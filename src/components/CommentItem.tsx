@@ -0,0 +1,109 @@
+'use client';
+
+import { useState } from 'react';
+import RichText from '@/components/RichText';
+import { Comment } from '@/config/api';
+
+interface CommentItemProps {
+  comment: Comment;
+  canEdit: boolean;
+  canDelete: boolean;
+  onUpdate: (comment: Comment, content: string) => Promise<boolean>;
+  onDelete: (comment: Comment) => void;
+  // Not yet saved on the server, e.g. queued while offline
+  isPending?: boolean;
+}
+
+export default function CommentItem({ comment, canEdit, canDelete, onUpdate, onDelete, isPending = false }: CommentItemProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [content, setContent] = useState(comment.content);
+
+  const startEditing = () => {
+    setContent(comment.content);
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    const trimmed = content.trim();
+    if (!trimmed || isSaving) return;
+
+    // Nothing changed, just leave edit mode
+    if (trimmed === comment.content) {
+      setIsEditing(false);
+      return;
+    }
+
+    setIsSaving(true);
+    const saved = await onUpdate(comment, trimmed);
+    setIsSaving(false);
+    if (saved) {
+      setIsEditing(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      handleSave();
+    } else if (e.key === 'Escape') {
+      setIsEditing(false);
+    }
+  };
+
+  if (isEditing) {
+    return (
+      <div className="flex items-center space-x-2 text-gray-900">
+        <span className="font-semibold">{comment.user?.name || 'Unknown User'}</span>
+        <input
+          type="text"
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          onKeyDown={handleKeyDown}
+          disabled={isSaving}
+          autoFocus
+          className="flex-1 text-sm border border-gray-300 rounded px-2 py-1 outline-none focus:ring-2 focus:ring-purple-500 disabled:bg-gray-100"
+        />
+        <button
+          onClick={handleSave}
+          disabled={isSaving || !content.trim()}
+          className="text-blue-500 font-semibold text-xs disabled:text-gray-300 disabled:cursor-not-allowed"
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+        <button
+          onClick={() => setIsEditing(false)}
+          disabled={isSaving}
+          className="text-gray-500 text-xs hover:text-gray-700"
+        >
+          Cancel
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="group text-gray-900">
+      <p>
+        <span className="font-semibold mr-2">{comment.user?.name || 'Unknown User'}</span>
+        <RichText text={comment.content} />
+        {isPending && (
+          <span className="ml-2 text-gray-400 text-xs">Sending...</span>
+        )}
+        {(canEdit || canDelete) && (
+          <span className="ml-2 space-x-2 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+            {canEdit && (
+              <button onClick={startEditing} className="text-gray-500 text-xs hover:text-gray-700">
+                Edit
+              </button>
+            )}
+            {canDelete && (
+              <button onClick={() => onDelete(comment)} className="text-red-500 text-xs hover:text-red-600">
+                Delete
+              </button>
+            )}
+          </span>
+        )}
+      </p>
+    </div>
+  );
+}
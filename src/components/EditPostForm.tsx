@@ -0,0 +1,174 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import { ImageTooLargeError, processImage } from '@/lib/imageProcessing';
+import { fromDateTimeLocalValue, getTimeZoneLabel, toDateTimeLocalValue, validatePublishAt } from '@/lib/schedule';
+import { API_CONFIG, Post, UpdatePostRequest } from '@/config/api';
+
+interface EditPostFormProps {
+  post: Post;
+  onSave: (postData: UpdatePostRequest) => Promise<void>;
+  onCancel: () => void;
+  onError: (message: string) => void;
+}
+
+export default function EditPostForm({ post, onSave, onCancel, onError }: EditPostFormProps) {
+  const [content, setContent] = useState(post.content);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  // Only posts that haven't gone live yet can be rescheduled
+  const isScheduled = !!post.publish_at;
+  const [publishAtInput, setPublishAtInput] = useState(post.publish_at ? toDateTimeLocalValue(post.publish_at) : '');
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      // Validate file type
+      if (!file.type.startsWith('image/')) {
+        onError('Please select a valid image file');
+        return;
+      }
+
+      // Larger photos are compressed below the upload limit, but only within reason
+      if (file.size > API_CONFIG.UPLOAD.MAX_SOURCE_FILE_SIZE) {
+        onError('Image is too large to process');
+        return;
+      }
+
+      // Upright, metadata-free and compressed, like images in new posts
+      setIsProcessing(true);
+      let processed: File;
+      try {
+        processed = (await processImage(file)).file;
+      } catch (error) {
+        onError(error instanceof ImageTooLargeError ? error.message : 'Could not process the selected image');
+        return;
+      } finally {
+        setIsProcessing(false);
+      }
+
+      setSelectedFile(processed);
+
+      // Create preview
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        setImagePreview(e.target?.result as string);
+      };
+      reader.readAsDataURL(processed);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!content.trim()) {
+      onError('Post content cannot be empty');
+      return;
+    }
+
+    const publishAt = isScheduled ? fromDateTimeLocalValue(publishAtInput) : null;
+    const scheduleError = isScheduled ? validatePublishAt(publishAt) : null;
+    if (scheduleError) {
+      onError(scheduleError);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await onSave({ content, image: selectedFile, publish_at: publishAt ?? undefined });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="p-4 space-y-4">
+      <div>
+        <label htmlFor={`edit_content_${post.id}`} className="block text-sm font-medium text-gray-700 mb-2">
+          Content
+        </label>
+        <textarea
+          id={`edit_content_${post.id}`}
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          rows={4}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition-colors resize-none"
+          disabled={isSubmitting}
+          required
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          {content.length}/2200 characters
+        </p>
+      </div>
+
+      <div>
+        <label htmlFor={`edit_image_${post.id}`} className="block text-sm font-medium text-gray-700 mb-2">
+          Replace Image (optional)
+        </label>
+        <input
+          type="file"
+          id={`edit_image_${post.id}`}
+          accept="image/*"
+          onChange={handleFileChange}
+          disabled={isSubmitting || isProcessing}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition-colors file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-purple-50 file:text-purple-700 hover:file:bg-purple-100"
+        />
+        {isProcessing && (
+          <p className="text-xs text-gray-500 mt-1">Preparing image...</p>
+        )}
+        {imagePreview && (
+          <div className="mt-2 border border-gray-200 rounded-lg overflow-hidden">
+            <Image
+              src={imagePreview}
+              alt="New image preview"
+              width={600}
+              height={192}
+              className="w-full h-48 object-cover"
+            />
+          </div>
+        )}
+      </div>
+
+      {isScheduled && (
+        <div>
+          <label htmlFor={`edit_publish_at_${post.id}`} className="block text-sm font-medium text-gray-700 mb-2">
+            Publish At
+          </label>
+          <input
+            type="datetime-local"
+            id={`edit_publish_at_${post.id}`}
+            value={publishAtInput}
+            onChange={(e) => setPublishAtInput(e.target.value)}
+            disabled={isSubmitting}
+            required
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition-colors"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Times are in your timezone, {getTimeZoneLabel()}.
+          </p>
+        </div>
+      )}
+
+      <div className="flex items-center justify-end space-x-3 pt-4 border-t border-gray-100">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
+          disabled={isSubmitting}
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSubmitting || isProcessing || !content.trim()}
+          className="px-6 py-2 bg-gradient-to-r from-purple-600 to-pink-600 text-white rounded-lg hover:from-purple-700 hover:to-pink-700 disabled:from-gray-300 disabled:to-gray-300 disabled:cursor-not-allowed transition-all"
+        >
+          {isSubmitting ? 'Saving...' : 'Save Changes'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,60 @@
+'use client';
+
+import { useState } from 'react';
+import { apiClient } from '@/lib/api';
+import { cache, cacheKeys } from '@/lib/cache';
+
+interface FollowButtonProps {
+  userId: number;
+  isFollowing: boolean;
+  onError?: (message: string) => void;
+}
+
+export default function FollowButton({ userId, isFollowing, onError }: FollowButtonProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleClick = async () => {
+    if (isSubmitting) return;
+
+    const follow = !isFollowing;
+    const followersCount = cache.getState().users[userId]?.followers_count;
+    const withCount = (delta: number) =>
+      followersCount === undefined ? {} : { followers_count: Math.max(0, followersCount + delta) };
+
+    // Optimistic update: every post by this author and their profile flip at once
+    setIsSubmitting(true);
+    cache.updateUser(userId, { is_following: follow, ...withCount(follow ? 1 : -1) });
+
+    try {
+      const response = follow ? await apiClient.followUser(userId) : await apiClient.unfollowUser(userId);
+
+      if (response.success && response.data) {
+        cache.updateUser(userId, response.data);
+        // The following feed gains or loses this author's posts
+        cache.invalidate(cacheKeys.feed('following'));
+      } else {
+        cache.updateUser(userId, { is_following: !follow, ...withCount(0) });
+        onError?.(response.message || `Failed to ${follow ? 'follow' : 'unfollow'} user`);
+      }
+    } catch {
+      cache.updateUser(userId, { is_following: !follow, ...withCount(0) });
+      onError?.('Network error. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleClick}
+      disabled={isSubmitting}
+      className={`px-4 py-1.5 text-sm font-semibold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+        isFollowing
+          ? 'bg-gray-100 text-gray-900 hover:bg-gray-200'
+          : 'bg-gradient-to-r from-purple-600 to-pink-600 text-white hover:from-purple-700 hover:to-pink-700'
+      }`}
+    >
+      {isFollowing ? 'Following' : 'Follow'}
+    </button>
+  );
+}
@@ -0,0 +1,209 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  CROP_ASPECTS,
+  CropAspect,
+  IMAGE_FILTERS,
+  ImageEdits,
+  ImageTooLargeError,
+  ProcessedImage,
+  Rotation,
+  decodeImage,
+  processImage,
+  renderEdits,
+} from '@/lib/imageProcessing';
+
+// Preview canvases are kept small so re-rendering on every change stays instant
+const PREVIEW_DIMENSION = 600;
+const THUMBNAIL_DIMENSION = 96;
+
+interface ImageEditorProps {
+  // Always the untouched original, so repeated edits never compound compression
+  file: File;
+  initialEdits: ImageEdits;
+  onApply: (result: ProcessedImage, edits: ImageEdits) => void;
+  onCancel: () => void;
+  onError: (message: string) => void;
+}
+
+export default function ImageEditor({ file, initialEdits, onApply, onCancel, onError }: ImageEditorProps) {
+  const [edits, setEdits] = useState<ImageEdits>(initialEdits);
+  const [source, setSource] = useState<ImageBitmap | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const thumbnailRefs = useRef<Record<string, HTMLCanvasElement | null>>({});
+
+  useEffect(() => {
+    let bitmap: ImageBitmap | null = null;
+    let cancelled = false;
+
+    decodeImage(file)
+      .then((decoded) => {
+        bitmap = decoded;
+        if (cancelled) {
+          decoded.close();
+        } else {
+          setSource(decoded);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) onError(`Could not open ${file.name}`);
+      });
+
+    return () => {
+      cancelled = true;
+      bitmap?.close();
+    };
+  }, [file, onError]);
+
+  useEffect(() => {
+    if (source && previewRef.current) {
+      renderEdits(source, edits, PREVIEW_DIMENSION, previewRef.current);
+    }
+  }, [source, edits]);
+
+  // Filter thumbnails follow the current crop and rotation
+  useEffect(() => {
+    if (!source) return;
+    for (const [key, canvas] of Object.entries(thumbnailRefs.current)) {
+      if (canvas) {
+        renderEdits(source, { ...edits, aspect: 'square', filter: key }, THUMBNAIL_DIMENSION, canvas);
+      }
+    }
+  }, [source, edits]);
+
+  const rotate = (delta: 90 | -90) => {
+    setEdits(prev => ({ ...prev, rotation: ((prev.rotation + delta + 360) % 360) as Rotation }));
+  };
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    try {
+      onApply(await processImage(file, edits), edits);
+    } catch (error) {
+      onError(error instanceof ImageTooLargeError ? `${file.name}: ${error.message}` : `Could not process ${file.name}`);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-label="Edit image">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-xl max-h-full overflow-y-auto">
+        <div className="p-4 border-b border-gray-100 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">Edit Image</h3>
+          <button
+            type="button"
+            onClick={onCancel}
+            aria-label="Close editor"
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Preview */}
+        <div className="bg-gray-100 flex items-center justify-center min-h-64">
+          {source ? (
+            <canvas ref={previewRef} className="max-w-full max-h-[50vh] object-contain" />
+          ) : (
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+          )}
+        </div>
+
+        <div className="p-4 space-y-4">
+          {/* Crop */}
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Crop</p>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(CROP_ASPECTS) as CropAspect[]).map((aspect) => (
+                <button
+                  key={aspect}
+                  type="button"
+                  onClick={() => setEdits(prev => ({ ...prev, aspect }))}
+                  className={`px-3 py-1.5 text-sm rounded-lg border transition-colors ${
+                    edits.aspect === aspect
+                      ? 'border-purple-500 bg-purple-50 text-purple-700'
+                      : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {CROP_ASPECTS[aspect].label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Rotate */}
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Rotate</p>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => rotate(-90)}
+                className="px-3 py-1.5 text-sm rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors"
+              >
+                &#8634; Left
+              </button>
+              <button
+                type="button"
+                onClick={() => rotate(90)}
+                className="px-3 py-1.5 text-sm rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors"
+              >
+                Right &#8635;
+              </button>
+            </div>
+          </div>
+
+          {/* Filters */}
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Filter</p>
+            <div className="flex gap-3 overflow-x-auto pb-2">
+              {Object.entries(IMAGE_FILTERS).map(([key, filter]) => (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => setEdits(prev => ({ ...prev, filter: key }))}
+                  className="shrink-0 text-center"
+                >
+                  <canvas
+                    ref={el => { thumbnailRefs.current[key] = el; }}
+                    width={THUMBNAIL_DIMENSION}
+                    height={THUMBNAIL_DIMENSION}
+                    className={`w-16 h-16 rounded-lg bg-gray-100 border-2 ${
+                      edits.filter === key ? 'border-purple-500' : 'border-transparent'
+                    }`}
+                  />
+                  <span className={`block text-xs mt-1 ${edits.filter === key ? 'text-purple-700 font-semibold' : 'text-gray-600'}`}>
+                    {filter.label}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end space-x-3 p-4 border-t border-gray-100">
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={isApplying}
+            className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleApply}
+            disabled={!source || isApplying}
+            className="px-6 py-2 bg-gradient-to-r from-purple-600 to-pink-600 text-white rounded-lg hover:from-purple-700 hover:to-pink-700 disabled:from-gray-300 disabled:to-gray-300 disabled:cursor-not-allowed transition-all"
+          >
+            {isApplying ? 'Applying...' : 'Apply'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import SafeImage, { AVATAR_FALLBACK_SRC } from '@/components/SafeImage';
+import { apiClient } from '@/lib/api';
+import { findMentionQuery, toMentionHandle } from '@/lib/richText';
+import { UserProfile } from '@/config/api';
+
+// Wait for a pause in typing before searching for users to mention
+const SEARCH_DEBOUNCE = 200;
+const MAX_SUGGESTIONS = 5;
+
+type InputElement = HTMLInputElement | HTMLTextAreaElement;
+
+interface MentionInputProps {
+  value: string;
+  onValueChange: (value: string) => void;
+  multiline?: boolean;
+  onKeyDown?: (e: React.KeyboardEvent<InputElement>) => void;
+  id?: string;
+  name?: string;
+  placeholder?: string;
+  rows?: number;
+  required?: boolean;
+  className?: string;
+  containerClassName?: string;
+}
+
+// Text input or textarea that suggests users while an @mention is being typed
+export default function MentionInput({
+  value,
+  onValueChange,
+  multiline = false,
+  onKeyDown,
+  containerClassName = '',
+  ...inputProps
+}: MentionInputProps) {
+  const inputRef = useRef<InputElement | null>(null);
+  const [mention, setMention] = useState<{ start: number; query: string } | null>(null);
+  const [suggestions, setSuggestions] = useState<UserProfile[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const query = mention?.query ?? '';
+  // Results of the previous query stay up while the next one is debounced
+  const isOpen = query !== '' && suggestions.length > 0;
+
+  useEffect(() => {
+    if (!query) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const response = await apiClient.searchUsers(query, 1, MAX_SUGGESTIONS);
+      if (!cancelled && response.success && response.data && Array.isArray(response.data.users)) {
+        setSuggestions(response.data.users);
+        setActiveIndex(0);
+      }
+    }, SEARCH_DEBOUNCE);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  // Re-read the mention around the caret after typing, clicking or moving with the arrow keys
+  const updateMention = () => {
+    const input = inputRef.current;
+    if (!input) return;
+    setMention(findMentionQuery(input.value, input.selectionStart ?? input.value.length));
+  };
+
+  const selectUser = (user: UserProfile) => {
+    const input = inputRef.current;
+    if (!input || !mention) return;
+
+    const caret = input.selectionStart ?? value.length;
+    const inserted = `@${toMentionHandle(user.name)} `;
+    const nextValue = value.slice(0, mention.start) + inserted + value.slice(caret);
+    const nextCaret = mention.start + inserted.length;
+
+    onValueChange(nextValue);
+    setMention(null);
+    setSuggestions([]);
+
+    // Restore the caret after React has rendered the new value
+    requestAnimationFrame(() => {
+      input.focus();
+      input.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<InputElement>) => {
+    if (isOpen) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setActiveIndex(index => (index + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        selectUser(suggestions[activeIndex]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setMention(null);
+        return;
+      }
+    }
+    onKeyDown?.(e);
+  };
+
+  const sharedProps = {
+    ...inputProps,
+    value,
+    onChange: (e: React.ChangeEvent<InputElement>) => {
+      onValueChange(e.target.value);
+      setMention(findMentionQuery(e.target.value, e.target.selectionStart ?? e.target.value.length));
+    },
+    onKeyDown: handleKeyDown,
+    onKeyUp: (e: React.KeyboardEvent<InputElement>) => {
+      if (e.key === 'ArrowLeft' || e.key === 'ArrowRight' || e.key === 'Home' || e.key === 'End') {
+        updateMention();
+      }
+    },
+    onClick: updateMention,
+    onBlur: () => setMention(null),
+    autoComplete: 'off',
+    'aria-autocomplete': 'list' as const,
+    'aria-expanded': isOpen,
+  };
+
+  return (
+    <div className={`relative ${containerClassName}`}>
+      {multiline ? (
+        <textarea ref={el => { inputRef.current = el; }} {...sharedProps} />
+      ) : (
+        <input ref={el => { inputRef.current = el; }} type="text" {...sharedProps} />
+      )}
+
+      {isOpen && (
+        <ul
+          role="listbox"
+          className="absolute left-0 top-full mt-1 w-64 z-30 bg-white border border-gray-200 rounded-lg shadow-lg py-1"
+        >
+          {suggestions.map((user, index) => (
+            <li
+              key={user.id}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keep focus in the input so the blur handler doesn't close the list before the click lands
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => selectUser(user)}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`flex items-center px-3 py-2 text-sm cursor-pointer ${
+                index === activeIndex ? 'bg-purple-50' : ''
+              }`}
+            >
+              <SafeImage
+                src={`https://ui-avatars.com/api/?name=${user.name}&background=random`}
+                alt={user.name}
+                width={24}
+                height={24}
+                className="w-6 h-6 rounded-full object-cover mr-2"
+                useProxy={false}
+                fallbackSrc={AVATAR_FALLBACK_SRC}
+              />
+              <span className="font-semibold text-gray-900 mr-2">{user.name}</span>
+              <span className="text-gray-500">@{toMentionHandle(user.name)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
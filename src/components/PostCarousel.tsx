@@ -0,0 +1,115 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import SafeImage from '@/components/SafeImage';
+import { Post } from '@/config/api';
+
+interface PostCarouselProps {
+  post: Post;
+  // The post is above the fold, so its first image loads eagerly
+  priority?: boolean;
+}
+
+// Swipeable image slides for a post. Swiping is native scrolling with scroll snapping, so it works
+// with touch, trackpads and shift+wheel; the arrows and dots scroll the same track.
+export default function PostCarousel({ post, priority = false }: PostCarouselProps) {
+  const images = post.images;
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [index, setIndex] = useState(0);
+
+  const handleScroll = () => {
+    const track = trackRef.current;
+    if (track && track.clientWidth > 0) {
+      setIndex(Math.round(track.scrollLeft / track.clientWidth));
+    }
+  };
+
+  const goTo = (slide: number) => {
+    const track = trackRef.current;
+    if (track) {
+      track.scrollTo({ left: slide * track.clientWidth, behavior: 'smooth' });
+    }
+  };
+
+  if (images.length === 1) {
+    return (
+      <div className="relative">
+        <SafeImage
+          src={images[0]}
+          alt={`Post by ${post.user.name}`}
+          width={600}
+          height={600}
+          className="w-full h-auto object-cover"
+          useProxy={true}
+          placeholder={post.image_placeholders?.[0]}
+          priority={priority}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative" aria-roledescription="carousel">
+      <div
+        ref={trackRef}
+        onScroll={handleScroll}
+        className="flex overflow-x-auto snap-x snap-mandatory [scrollbar-width:none] [&::-webkit-scrollbar]:hidden"
+      >
+        {images.map((src, slide) => (
+          <div key={`${slide}-${src}`} className="w-full shrink-0 snap-center" aria-roledescription="slide">
+            <SafeImage
+              src={src}
+              alt={`Post by ${post.user.name} (${slide + 1} of ${images.length})`}
+              width={600}
+              height={600}
+              className="w-full h-auto object-cover"
+              useProxy={true}
+              placeholder={post.image_placeholders?.[slide]}
+              priority={priority && slide === 0}
+            />
+          </div>
+        ))}
+      </div>
+
+      <span className="absolute top-3 right-3 bg-black/60 text-white text-xs font-semibold px-2 py-1 rounded-full">
+        {index + 1}/{images.length}
+      </span>
+
+      {index > 0 && (
+        <button
+          onClick={() => goTo(index - 1)}
+          aria-label="Previous image"
+          className="absolute left-2 top-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-white/80 hover:bg-white text-gray-900 shadow flex items-center justify-center transition-colors"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </button>
+      )}
+      {index < images.length - 1 && (
+        <button
+          onClick={() => goTo(index + 1)}
+          aria-label="Next image"
+          className="absolute right-2 top-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-white/80 hover:bg-white text-gray-900 shadow flex items-center justify-center transition-colors"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+          </svg>
+        </button>
+      )}
+
+      {/* Dot Indicators */}
+      <div className="absolute bottom-3 left-1/2 -translate-x-1/2 flex space-x-1.5">
+        {images.map((src, slide) => (
+          <button
+            key={`${slide}-${src}`}
+            onClick={() => goTo(slide)}
+            aria-label={`Show image ${slide + 1}`}
+            aria-current={slide === index}
+            className={`w-1.5 h-1.5 rounded-full transition-colors ${slide === index ? 'bg-white' : 'bg-white/50'}`}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,43 @@
 'use client';
 
-import { useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import Image from 'next/image';
+import { formatDistanceToNow } from 'date-fns';
+import MentionInput from '@/components/MentionInput';
+import ImageEditor from '@/components/ImageEditor';
 import { apiClient } from '@/lib/api';
-import { CreatePostRequest } from '@/config/api';
+import { DEFAULT_EDITS, ImageEdits, ImageTooLargeError, ProcessedImage, processImage } from '@/lib/imageProcessing';
+import { resumableUploadsAvailable, uploadResumable } from '@/lib/uploads';
+import { Draft, DraftImage, drafts } from '@/lib/drafts';
+import { cache, cacheKeys } from '@/lib/cache';
+import { fromDateTimeLocalValue, getScheduleBounds, getTimeZoneLabel, toDateTimeLocalValue, validatePublishAt } from '@/lib/schedule';
+import { API_CONFIG, CreatePostRequest, MAX_POST_IMAGES } from '@/config/api';
+
+interface SelectedImage {
+  id: number;
+  // As picked by the user; every edit is rendered from this
+  original: File;
+  // What gets uploaded: the original until processing finishes, then the re-encoded result
+  file: File;
+  // Object URL for the thumbnail, revoked once the image is replaced, removed or posted
+  preview: string;
+  edits: ImageEdits;
+  isProcessing: boolean;
+  locationRemoved: boolean;
+}
+
+// Wait for a pause in typing before writing the draft
+const DRAFT_AUTOSAVE_DELAY = 1000;
+
+function toDraftImage(image: SelectedImage): DraftImage {
+  return {
+    original: image.original,
+    file: image.file,
+    edits: image.edits,
+    isProcessed: !image.isProcessing,
+    locationRemoved: image.locationRemoved,
+  };
+}
 
 interface PostFormProps {
   onPostCreated: () => void;
@@ -13,62 +47,336 @@ interface PostFormProps {
 export default function PostForm({ onPostCreated, onError }: PostFormProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [images, setImages] = useState<SelectedImage[]>([]);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [editingImageId, setEditingImageId] = useState<number | null>(null);
+  // Bytes the server has per image id while posting
+  const [uploadProgress, setUploadProgress] = useState<Record<number, number>>({});
+  const [savedDrafts, setSavedDrafts] = useState<Draft[]>([]);
+  const [draftId, setDraftId] = useState<number | null>(null);
+  const [isScheduling, setIsScheduling] = useState(false);
+  // Raw datetime-local value, kept as typed so half-entered dates aren't wiped
+  const [publishAtInput, setPublishAtInput] = useState('');
   const [formData, setFormData] = useState<CreatePostRequest>({
     content: '',
     image: '',
   });
+  const nextImageIdRef = useRef(0);
+  const imagesRef = useRef<SelectedImage[]>([]);
+  const uploadAbortRef = useRef<AbortController | null>(null);
+  // Upload sessions by file, so posting again after a cancel or failure resumes instead of
+  // starting over. An edited image is a new file and gets a new session.
+  const uploadSessionsRef = useRef(new WeakMap<File, string>());
+  const contentRef = useRef('');
+  const publishAtRef = useRef<number | null>(null);
+  // The draft being edited. Replaced with a fresh object whenever the composer is reset, so a save
+  // still in flight for the old draft can't attach itself to the new one.
+  const draftRef = useRef<{ id: number | null }>({ id: null });
+  // Draft writes run one after another so a slow save can't race the next into a duplicate
+  const draftQueueRef = useRef<Promise<void>>(Promise.resolve());
+
+  useEffect(() => {
+    imagesRef.current = images;
+  }, [images]);
+
+  const publishAt = isScheduling ? fromDateTimeLocalValue(publishAtInput) : null;
+
+  useEffect(() => {
+    contentRef.current = formData.content;
+    publishAtRef.current = publishAt;
+  }, [formData.content, publishAt]);
+
+  const enqueueDraftWrite = useCallback((write: () => Promise<void>) => {
+    // Storage can be full or blocked (private browsing); the composer works without drafts
+    draftQueueRef.current = draftQueueRef.current.then(write).catch(() => {});
+  }, []);
+
+  // Snapshots the composer now and writes it once earlier writes are done
+  const saveDraft = useCallback(() => {
+    if (!drafts.isAvailable()) return;
+
+    const target = draftRef.current;
+    const content = contentRef.current;
+    const current = imagesRef.current;
+    const scheduledFor = publishAtRef.current;
+    enqueueDraftWrite(async () => {
+      if (!content.trim() && current.length === 0) {
+        // Emptied out, nothing left worth keeping
+        if (target.id !== null) {
+          await drafts.delete(target.id);
+          target.id = null;
+        }
+      } else {
+        target.id = await drafts.save({
+          id: target.id ?? undefined,
+          content,
+          images: current.map(toDraftImage),
+          publish_at: scheduledFor,
+        });
+      }
+      if (draftRef.current === target) {
+        setDraftId(target.id);
+      }
+    });
+  }, [enqueueDraftWrite]);
+
+  // Autosave while the composer is open
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const timer = setTimeout(saveDraft, DRAFT_AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [isOpen, formData.content, images, publishAt, saveDraft]);
+
+  // Keep unsaved changes, release the previews still held and stop any upload when the form goes away
+  useEffect(() => {
+    return () => {
+      saveDraft();
+      imagesRef.current.forEach(image => URL.revokeObjectURL(image.preview));
+      uploadAbortRef.current?.abort();
+    };
+  }, [saveDraft]);
+
+  const resetForm = () => {
+    draftRef.current = { id: null };
+    setDraftId(null);
+    setFormData({ content: '', image: '' });
+    imagesRef.current.forEach(image => URL.revokeObjectURL(image.preview));
+    setImages([]);
+    setIsScheduling(false);
+    setPublishAtInput('');
+    imagesRef.current = [];
+    contentRef.current = '';
+    publishAtRef.current = null;
+  };
+
+  const openForm = () => {
+    setIsOpen(true);
+    if (drafts.isAvailable()) {
+      // Queued behind pending writes so a draft saved on close is already listed
+      enqueueDraftWrite(async () => setSavedDrafts(await drafts.list()));
+    }
+  };
+
+  const resumeDraft = (draft: Draft) => {
+    const restored = draft.images.map(image => ({
+      id: nextImageIdRef.current++,
+      original: image.original,
+      file: image.file,
+      preview: URL.createObjectURL(image.file),
+      edits: image.edits,
+      isProcessing: !image.isProcessed,
+      locationRemoved: image.locationRemoved,
+    }));
+
+    draftRef.current = { id: draft.id ?? null };
+    setDraftId(draft.id ?? null);
+    setFormData({ content: draft.content, image: '' });
+    setImages(restored);
+    setIsScheduling(!!draft.publish_at);
+    setPublishAtInput(draft.publish_at ? toDateTimeLocalValue(draft.publish_at) : '');
+    imagesRef.current = restored;
+    contentRef.current = draft.content;
+    publishAtRef.current = draft.publish_at ?? null;
+    processAdded(restored.filter(image => image.isProcessing));
+  };
+
+  const discardDraft = (draft: Draft) => {
+    setSavedDrafts(prev => prev.filter(d => d.id !== draft.id));
+    if (draft.id !== undefined) {
+      const id = draft.id;
+      enqueueDraftWrite(() => drafts.delete(id));
+    }
+  };
+
+  const applyProcessed = (id: number, result: ProcessedImage, edits: ImageEdits) => {
+    if (!imagesRef.current.some(i => i.id === id)) return;
+
+    const preview = URL.createObjectURL(result.file);
+    setImages(prev => prev.map(image => {
+      if (image.id !== id) return image;
+      URL.revokeObjectURL(image.preview);
+      return { ...image, file: result.file, preview, edits, isProcessing: false, locationRemoved: result.locationRemoved };
+    }));
+  };
+
+  // Processes new images one at a time to keep memory in check with large phone photos
+  const processAdded = async (added: SelectedImage[]) => {
+    for (const image of added) {
+      try {
+        applyProcessed(image.id, await processImage(image.original), DEFAULT_EDITS);
+      } catch (error) {
+        onError(error instanceof ImageTooLargeError
+          ? `${image.original.name}: ${error.message}`
+          : `Could not process ${image.original.name}`);
+        removeImage(image.id);
+      }
+    }
+  };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
+    const files = Array.from(e.target.files ?? []);
+    // Clear the input so the same file can be picked again after removing it
+    e.target.value = '';
+
+    const valid: File[] = [];
+    for (const file of files) {
       // Validate file type
       if (!file.type.startsWith('image/')) {
-        onError('Please select a valid image file');
-        return;
+        onError(`${file.name} is not a valid image file`);
+        continue;
       }
-      
-      // Validate file size (max 10MB)
-      if (file.size > 10 * 1024 * 1024) {
-        onError('Image size must be less than 10MB');
-        return;
+
+      // Larger photos are compressed below the upload limit, but only within reason
+      if (file.size > API_CONFIG.UPLOAD.MAX_SOURCE_FILE_SIZE) {
+        onError(`${file.name} is too large to process`);
+        continue;
       }
-      
-      setSelectedFile(file);
-      
-      // Create preview
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        setImagePreview(e.target?.result as string);
-      };
-      reader.readAsDataURL(file);
+
+      valid.push(file);
+    }
+
+    const room = MAX_POST_IMAGES - images.length;
+    if (valid.length > room) {
+      onError(`A post can have up to ${MAX_POST_IMAGES} images`);
     }
+
+    const added = valid.slice(0, Math.max(0, room)).map(file => ({
+      id: nextImageIdRef.current++,
+      original: file,
+      file,
+      preview: URL.createObjectURL(file),
+      edits: DEFAULT_EDITS,
+      isProcessing: true,
+      locationRemoved: false,
+    }));
+    setImages(prev => [...prev, ...added]);
+    imagesRef.current = [...imagesRef.current, ...added];
+    processAdded(added);
+  };
+
+  const removeImage = (id: number) => {
+    const image = imagesRef.current.find(i => i.id === id);
+    if (image) {
+      URL.revokeObjectURL(image.preview);
+    }
+    setImages(prev => prev.filter(i => i.id !== id));
+  };
+
+  const editingImage = images.find(i => i.id === editingImageId) ?? null;
+  const isProcessing = images.some(i => i.isProcessing);
+  const locationRemovedCount = images.filter(i => i.locationRemoved).length;
+  const isPristine = draftId === null && !formData.content && images.length === 0;
+  const totalBytes = images.reduce((total, image) => total + image.file.size, 0);
+  const uploadedBytes = images.reduce((total, image) => total + (uploadProgress[image.id] ?? 0), 0);
+  const uploadPercent = totalBytes > 0 ? Math.min(100, Math.round((uploadedBytes / totalBytes) * 100)) : 0;
+
+  const moveImage = (from: number, to: number) => {
+    setImages(prev => {
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  };
+
+  // Reorders live while dragging, so the thumbnails show where the image will land
+  const handleDragOver = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    if (dragIndex !== null && dragIndex !== index) {
+      moveImage(dragIndex, index);
+      setDragIndex(index);
+    }
+  };
+
+  // Shares one request's progress out over the images it carries, in order
+  const spreadProgress = (fraction: number): Record<number, number> => {
+    let remaining = fraction * totalBytes;
+    const progress: Record<number, number> = {};
+    for (const image of images) {
+      progress[image.id] = Math.min(image.file.size, remaining);
+      remaining -= progress[image.id];
+    }
+    return progress;
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!formData.content.trim() || !selectedFile) {
-      onError('Please fill in all fields and select an image');
+    if (!formData.content.trim() || images.length === 0) {
+      onError('Please fill in all fields and select at least one image');
+      return;
+    }
+    if (isProcessing) {
+      onError('Please wait until your images are ready');
+      return;
+    }
+    const scheduleError = isScheduling ? validatePublishAt(publishAt) : null;
+    if (scheduleError) {
+      onError(scheduleError);
       return;
     }
 
+    const controller = new AbortController();
+    uploadAbortRef.current = controller;
+    const draft = draftRef.current;
+    setUploadProgress({});
     setIsSubmitting(true);
     
     try {
-      // Create FormData for file upload
-      const formDataToSend = new FormData();
-      formDataToSend.append('content', formData.content);
-      formDataToSend.append('image', selectedFile);
-      
-      const response = await apiClient.createPostWithFile(formDataToSend);
+      // Images go up one at a time in resumable chunks; the post then references them in order,
+      // so the first image becomes the cover
+      let uploadIds: string[] | null = null;
+      if (resumableUploadsAvailable()) {
+        uploadIds = [];
+        for (const image of images) {
+          const upload = await uploadResumable(image.file, {
+            uploadId: uploadSessionsRef.current.get(image.file),
+            signal: controller.signal,
+            onSession: (uploadId) => uploadSessionsRef.current.set(image.file, uploadId),
+            onProgress: (loaded) => setUploadProgress(prev => ({ ...prev, [image.id]: loaded })),
+          });
+          if (controller.signal.aborted) return;
+          // The API has no upload sessions; send everything as one multipart request instead
+          if (!resumableUploadsAvailable()) {
+            uploadIds = null;
+            break;
+          }
+          if (!upload.success || !upload.data) {
+            onError(upload.message || `Failed to upload ${image.original.name}`);
+            return;
+          }
+          uploadIds.push(upload.data.upload_id);
+        }
+      }
+
+      const response = uploadIds
+        ? await apiClient.createPostWithUploads({
+          content: formData.content,
+          upload_ids: uploadIds,
+          publish_at: publishAt ?? undefined,
+        }, { signal: controller.signal })
+        : await apiClient.createPostWithFile({
+          content: formData.content,
+          images: images.map(image => image.file),
+          publish_at: publishAt ?? undefined,
+        }, {
+          signal: controller.signal,
+          onUploadProgress: ({ loaded, total }) => setUploadProgress(spreadProgress(total > 0 ? loaded / total : 0)),
+        });
+      if (controller.signal.aborted) return;
       
       if (response.success) {
-        // Reset form
-        setFormData({ content: '', image: '' });
-        setSelectedFile(null);
-        setImagePreview(null);
+        // Posted, so the draft has served its purpose
+        enqueueDraftWrite(async () => {
+          if (draft.id !== null) {
+            await drafts.delete(draft.id);
+          }
+        });
+        if (publishAt !== null) {
+          cache.invalidate(cacheKeys.scheduledPosts());
+        }
+        resetForm();
         setIsOpen(false);
         onPostCreated();
       } else {
@@ -77,23 +385,40 @@ export default function PostForm({ onPostCreated, onError }: PostFormProps) {
     } catch {
       onError('Network error. Please try again.');
     } finally {
+      if (uploadAbortRef.current === controller) {
+        uploadAbortRef.current = null;
+      }
       setIsSubmitting(false);
     }
   };
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
-    const { name, value } = e.target;
-    setFormData(prev => ({
-      ...prev,
-      [name]: value
-    }));
+  const handleScheduleToggle = (checked: boolean) => {
+    setIsScheduling(checked);
+    if (checked && !publishAtInput) {
+      // Suggest the first full hour that is far enough ahead
+      const { min } = getScheduleBounds();
+      setPublishAtInput(toDateTimeLocalValue(Math.ceil(min / 3600) * 3600));
+    }
+  };
+
+  // Stops the upload but keeps the form as it is; sharing again resumes where this left off
+  const cancelUpload = () => {
+    uploadAbortRef.current?.abort();
+  };
+
+  // Closing keeps the work as a draft and clears the composer for next time
+  const closeForm = () => {
+    cancelUpload();
+    saveDraft();
+    resetForm();
+    setIsOpen(false);
   };
 
   if (!isOpen) {
     return (
       <div className="mb-6">
         <button
-          onClick={() => setIsOpen(true)}
+          onClick={openForm}
           className="w-full bg-white border-2 border-dashed border-gray-300 rounded-lg p-8 text-center hover:border-gray-400 transition-colors"
         >
           <div className="flex flex-col items-center">
@@ -114,7 +439,7 @@ export default function PostForm({ onPostCreated, onError }: PostFormProps) {
         <div className="flex items-center justify-between">
           <h3 className="text-lg font-semibold text-gray-900">Create New Post</h3>
           <button
-            onClick={() => setIsOpen(false)}
+            onClick={closeForm}
             className="text-gray-400 hover:text-gray-600 transition-colors"
           >
             <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -125,11 +450,48 @@ export default function PostForm({ onPostCreated, onError }: PostFormProps) {
       </div>
 
       <form onSubmit={handleSubmit} className="p-4">
+        {/* Drafts */}
+        {isPristine && savedDrafts.length > 0 && (
+          <div className="mb-4 p-3 bg-purple-50 border border-purple-100 rounded-lg">
+            <p className="text-sm font-medium text-gray-900 mb-2">
+              {savedDrafts.length === 1 ? 'Resume your draft?' : `Resume a draft? You have ${savedDrafts.length}.`}
+            </p>
+            <ul className="space-y-2">
+              {savedDrafts.map((draft) => (
+                <li key={draft.id} className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-sm text-gray-800 truncate">{draft.content.trim() || 'Untitled draft'}</p>
+                    <p className="text-xs text-gray-500">
+                      {draft.images.length} {draft.images.length === 1 ? 'image' : 'images'} &middot; Saved {new Date(draft.updated_at).toLocaleString()}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 items-center space-x-2">
+                    <button
+                      type="button"
+                      onClick={() => resumeDraft(draft)}
+                      className="px-3 py-1 text-sm bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
+                    >
+                      Resume
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => discardDraft(draft)}
+                      className="px-3 py-1 text-sm text-gray-600 hover:text-red-600 transition-colors"
+                    >
+                      Discard
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         <div className="space-y-4">
           {/* File Upload Input */}
           <div>
             <label htmlFor="image_file" className="block text-sm font-medium text-gray-700 mb-2">
-              Upload Image
+              Upload Images
             </label>
             <div className="relative">
               <input
@@ -137,13 +499,14 @@ export default function PostForm({ onPostCreated, onError }: PostFormProps) {
                 id="image_file"
                 name="image_file"
                 accept="image/*"
+                multiple
+                disabled={images.length >= MAX_POST_IMAGES}
                 onChange={handleFileChange}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition-colors file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-purple-50 file:text-purple-700 hover:file:bg-purple-100"
-                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition-colors file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-purple-50 file:text-purple-700 hover:file:bg-purple-100 disabled:opacity-50"
               />
             </div>
             <p className="text-xs text-gray-500 mt-1">
-              Select an image file (JPG, PNG, GIF supported, max 10MB)
+              Select up to {MAX_POST_IMAGES} images (JPG, PNG, GIF supported). Large photos are compressed automatically.
             </p>
           </div>
 
@@ -152,12 +515,13 @@ export default function PostForm({ onPostCreated, onError }: PostFormProps) {
             <label htmlFor="content" className="block text-sm font-medium text-gray-700 mb-2">
               content
             </label>
-            <textarea
+            <MentionInput
+              multiline
               id="content"
               name="content"
               value={formData.content}
-              onChange={handleInputChange}
-              placeholder="What's on your mind?"
+              onValueChange={(content) => setFormData(prev => ({ ...prev, content }))}
+              placeholder="What's on your mind? Use #hashtags and @mentions"
               rows={4}
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition-colors resize-none"
               required
@@ -168,42 +532,165 @@ export default function PostForm({ onPostCreated, onError }: PostFormProps) {
           </div>
 
           {/* Preview */}
-          {imagePreview && (
+          {images.length > 0 && (
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Preview
               </label>
-              <div className="border border-gray-200 rounded-lg overflow-hidden">
-                <Image
-                  src={imagePreview}
-                  alt="Post preview"
-                  width={600}
-                  height={192}
-                  className="w-full h-48 object-cover"
-                />
+              <div className="grid grid-cols-5 gap-2">
+                {images.map((image, index) => (
+                  <div
+                    key={image.id}
+                    draggable
+                    onDragStart={(e) => {
+                      // Firefox only starts a drag when some data is set
+                      e.dataTransfer.setData('text/plain', String(index));
+                      e.dataTransfer.effectAllowed = 'move';
+                      setDragIndex(index);
+                    }}
+                    onDragOver={(e) => handleDragOver(e, index)}
+                    onDragEnd={() => setDragIndex(null)}
+                    className={`relative aspect-square rounded-lg overflow-hidden border cursor-move ${
+                      dragIndex === index ? 'opacity-50 border-purple-500' : 'border-gray-200'
+                    }`}
+                  >
+                    <Image
+                      src={image.preview}
+                      alt={`Image ${index + 1}`}
+                      width={120}
+                      height={120}
+                      className="w-full h-full object-cover pointer-events-none"
+                    />
+                    {index === 0 && (
+                      <span className="absolute bottom-1 left-1 bg-black/60 text-white text-[10px] font-semibold px-1.5 py-0.5 rounded">
+                        Cover
+                      </span>
+                    )}
+                    {image.isProcessing ? (
+                      <div className="absolute inset-0 bg-white/60 flex items-center justify-center">
+                        <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-purple-600"></div>
+                      </div>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => setEditingImageId(image.id)}
+                        aria-label={`Edit ${image.original.name}`}
+                        className="absolute bottom-1 right-1 w-5 h-5 rounded-full bg-black/60 hover:bg-black/80 text-white flex items-center justify-center transition-colors"
+                      >
+                        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536M9 13l6.232-6.232a2.5 2.5 0 113.536 3.536L12.536 16.536 9 17l.464-3.536z" />
+                        </svg>
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => removeImage(image.id)}
+                      aria-label={`Remove ${image.original.name}`}
+                      className="absolute top-1 right-1 w-5 h-5 rounded-full bg-black/60 hover:bg-black/80 text-white flex items-center justify-center transition-colors"
+                    >
+                      <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </div>
+                ))}
               </div>
-              {selectedFile && (
+              <p className="text-xs text-gray-500 mt-1">
+                {images.length}/{MAX_POST_IMAGES} images ({(images.reduce((total, image) => total + image.file.size, 0) / 1024 / 1024).toFixed(2)} MB). Drag to reorder, tap the pencil to crop, rotate or add a filter.
+              </p>
+              {locationRemovedCount > 0 && (
                 <p className="text-xs text-gray-500 mt-1">
-                  Selected: {selectedFile.name} ({(selectedFile.size / 1024 / 1024).toFixed(2)} MB)
+                  Location data removed from {locationRemovedCount} {locationRemovedCount === 1 ? 'photo' : 'photos'}.
                 </p>
               )}
             </div>
           )}
+
+          {/* Schedule */}
+          <div>
+            <label className="inline-flex items-center space-x-2 text-sm font-medium text-gray-700">
+              <input
+                type="checkbox"
+                checked={isScheduling}
+                onChange={(e) => handleScheduleToggle(e.target.checked)}
+                className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+              />
+              <span>Schedule for later</span>
+            </label>
+            {isScheduling && (
+              <div className="mt-2">
+                <input
+                  type="datetime-local"
+                  id="publish_at"
+                  name="publish_at"
+                  aria-label="Publish at"
+                  value={publishAtInput}
+                  onChange={(e) => setPublishAtInput(e.target.value)}
+                  required
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition-colors"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Times are in your timezone, {getTimeZoneLabel()}.
+                  {publishAt !== null && ` Publishes ${formatDistanceToNow(new Date(publishAt * 1000), { addSuffix: true })}.`}
+                </p>
+              </div>
+            )}
+          </div>
         </div>
 
+        {editingImage && (
+          <ImageEditor
+            file={editingImage.original}
+            initialEdits={editingImage.edits}
+            onApply={(result, edits) => {
+              applyProcessed(editingImage.id, result, edits);
+              setEditingImageId(null);
+            }}
+            onCancel={() => setEditingImageId(null)}
+            onError={onError}
+          />
+        )}
+
+        {/* Upload Progress */}
+        {isSubmitting && (
+          <div className="mt-6" role="status">
+            <div className="flex justify-between text-xs text-gray-600 mb-1">
+              <span>{uploadPercent < 100 ? 'Uploading images...' : 'Publishing...'}</span>
+              <span>
+                {(uploadedBytes / 1024 / 1024).toFixed(1)} of {(totalBytes / 1024 / 1024).toFixed(1)} MB ({uploadPercent}%)
+              </span>
+            </div>
+            <div
+              className="h-2 bg-gray-100 rounded-full overflow-hidden"
+              role="progressbar"
+              aria-label="Upload progress"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={uploadPercent}
+            >
+              <div
+                className="h-full bg-gradient-to-r from-purple-600 to-pink-600 transition-all"
+                style={{ width: `${uploadPercent}%` }}
+              />
+            </div>
+          </div>
+        )}
+
         {/* Action Buttons */}
         <div className="flex items-center justify-end space-x-3 mt-6 pt-4 border-t border-gray-100">
+          {draftId !== null && (
+            <span className="mr-auto text-xs text-gray-400">Draft saved</span>
+          )}
           <button
             type="button"
-            onClick={() => setIsOpen(false)}
+            onClick={isSubmitting ? cancelUpload : closeForm}
             className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
-            disabled={isSubmitting}
           >
-            Cancel
+            {isSubmitting ? 'Cancel Upload' : 'Cancel'}
           </button>
           <button
             type="submit"
-            disabled={isSubmitting || !formData.content.trim() || !selectedFile}
+            disabled={isSubmitting || isProcessing || !formData.content.trim() || images.length === 0}
             className="px-6 py-2 bg-gradient-to-r from-purple-600 to-pink-600 text-white rounded-lg hover:from-purple-700 hover:to-pink-700 disabled:from-gray-300 disabled:to-gray-300 disabled:cursor-not-allowed transition-all flex items-center space-x-2"
           >
             {isSubmitting ? (
@@ -212,10 +699,10 @@ export default function PostForm({ onPostCreated, onError }: PostFormProps) {
                   <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                   <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                 </svg>
-                <span>Posting...</span>
+                <span>{isScheduling ? 'Scheduling...' : 'Posting...'}</span>
               </>
             ) : (
-              'Share Post'
+              isScheduling ? 'Schedule Post' : 'Share Post'
             )}
           </button>
         </div>
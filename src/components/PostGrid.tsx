@@ -0,0 +1,38 @@
+'use client';
+
+import Link from 'next/link';
+import SafeImage from '@/components/SafeImage';
+import { Post } from '@/config/api';
+
+interface PostGridProps {
+  posts: Post[];
+}
+
+// Square thumbnails linking to each post, with like and comment counts on hover
+export default function PostGrid({ posts }: PostGridProps) {
+  return (
+    <div className="grid grid-cols-3 gap-1 sm:gap-4">
+      {posts.map((post) => (
+        <Link
+          key={post.id}
+          href={`/post/${post.id}`}
+          className="relative block aspect-square overflow-hidden bg-gray-100 group"
+        >
+          <SafeImage
+            src={post.image_url}
+            alt={`Post by ${post.user.name}`}
+            width={300}
+            height={300}
+            className="w-full h-full object-cover"
+            useProxy={true}
+            placeholder={post.image_placeholders?.[0]}
+          />
+          <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center space-x-4 text-white font-semibold text-sm">
+            <span>&#9829; {post.likes_count.toLocaleString()}</span>
+            <span>&#128172; {post.comments_count.toLocaleString()}</span>
+          </div>
+        </Link>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+'use client';
+
+import { useMemo } from 'react';
+import Link from 'next/link';
+import { parseRichText } from '@/lib/richText';
+
+interface RichTextProps {
+  text: string;
+}
+
+export default function RichText({ text }: RichTextProps) {
+  const tokens = useMemo(() => parseRichText(text), [text]);
+
+  return (
+    <>
+      {tokens.map((token, index) => {
+        switch (token.type) {
+          case 'hashtag':
+            return (
+              <Link key={index} href={`/tags/${encodeURIComponent(token.tag)}`} className="text-purple-600 hover:underline">
+                {token.text}
+              </Link>
+            );
+          case 'mention':
+            return (
+              <Link key={index} href={`/users/by-name/${encodeURIComponent(token.name)}`} className="text-purple-600 hover:underline">
+                {token.text}
+              </Link>
+            );
+          case 'url':
+            return (
+              <a
+                key={index}
+                href={token.href}
+                target="_blank"
+                rel="noopener noreferrer nofollow"
+                className="text-blue-600 hover:underline break-all"
+              >
+                {token.text}
+              </a>
+            );
+          default:
+            return <span key={index}>{token.text}</span>;
+        }
+      })}
+    </>
+  );
+}
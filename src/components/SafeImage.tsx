@@ -1,7 +1,45 @@
 'use client';
 
-import { useState } from 'react';
-import Image from 'next/image';
+import { CSSProperties, useEffect, useRef, useState } from 'react';
+import Image, { ImageLoader } from 'next/image';
+import type { ImagePlaceholder } from '@/config/api';
+import { useBlurDataURL } from '@/lib/imagePlaceholders';
+import { ImageFit, ImageTransform, buildProxyUrl, isProxyUrl, snapSize } from '@/lib/imageProxyUrl';
+import { useProxyPlaceholder, useProxySignature } from '@/lib/proxySigner';
+
+// Bundled with the app, so a broken image never depends on yet another remote host
+export const IMAGE_FALLBACK_SRC = '/images/image-fallback.svg';
+export const AVATAR_FALLBACK_SRC = '/images/avatar-fallback.svg';
+
+// Proxied images are signed and loaded once they come this close to the viewport; far enough
+// ahead that an infinite-scroll feed has them ready when they scroll in
+const LAZY_ROOT_MARGIN = '1200px 0px';
+
+// One observer shared by every SafeImage on the page
+let nearViewportObserver: IntersectionObserver | null = null;
+const nearViewportCallbacks = new Map<Element, () => void>();
+
+function observeNearViewport(element: Element, onNear: () => void): () => void {
+  if (typeof IntersectionObserver === 'undefined') {
+    onNear();
+    return () => {};
+  }
+
+  nearViewportObserver ??= new IntersectionObserver(
+    (entries) => {
+      for (const entry of entries) {
+        if (entry.isIntersecting) nearViewportCallbacks.get(entry.target)?.();
+      }
+    },
+    { rootMargin: LAZY_ROOT_MARGIN }
+  );
+  nearViewportCallbacks.set(element, onNear);
+  nearViewportObserver.observe(element);
+  return () => {
+    nearViewportCallbacks.delete(element);
+    nearViewportObserver?.unobserve(element);
+  };
+}
 
 interface SafeImageProps {
   src?: string;
@@ -11,47 +49,105 @@ interface SafeImageProps {
   className?: string;
   fallbackSrc?: string;
   useProxy?: boolean;
+  // How the proxy fits the image into width x height. 'outside' keeps the full image at a size
+  // that covers the box, which suits both object-cover thumbnails and h-auto layouts.
+  fit?: ImageFit;
+  quality?: number;
+  // Shown until the image has loaded; proxied images without one use the proxy's, when it has
+  // computed one
+  placeholder?: ImagePlaceholder | null;
+  // Above the fold: load right away at high priority instead of lazily
+  priority?: boolean;
 }
 
-export default function SafeImage({ 
-  src, 
-  alt, 
-  width, 
-  height, 
-  className = '', 
-  fallbackSrc = 'https://images.unsplash.com/photo-1506905925346-21bda4d32df4?w=600&h=600&fit=crop',
-  useProxy = false 
+export default function SafeImage({
+  src,
+  alt,
+  width,
+  height,
+  className = '',
+  fallbackSrc = IMAGE_FALLBACK_SRC,
+  useProxy = false,
+  fit = 'outside',
+  quality,
+  placeholder: providedPlaceholder,
+  priority = false,
 }: SafeImageProps) {
-  const [imageSrc, setImageSrc] = useState(src || fallbackSrc);
-  const [hasError, setHasError] = useState(false);
-
-  const handleError = () => {
-    if (!hasError) {
-      setHasError(true);
-      if (useProxy && src && !imageSrc.includes('/api/image-proxy')) {
-        // Try using the proxy
-        setImageSrc(`/api/image-proxy?url=${encodeURIComponent(src)}`);
-      } else {
-        // Use fallback image
-        setImageSrc(fallbackSrc);
-      }
-    }
-  };
+  const wrapperRef = useRef<HTMLSpanElement>(null);
+  // Remembering which src failed or loaded (rather than flags) resets both when src changes
+  const [failedSrc, setFailedSrc] = useState<string | null>(null);
+  const [loadedSrc, setLoadedSrc] = useState<string | null>(null);
+  const [isNearViewport, setIsNearViewport] = useState(false);
+
+  const wantsProxy = useProxy && !!src && failedSrc !== src && !isProxyUrl(src);
+  const near = priority || isNearViewport;
+
+  useEffect(() => {
+    if (!wantsProxy || near || !wrapperRef.current) return;
+    return observeNearViewport(wrapperRef.current, () => setIsNearViewport(true));
+  }, [wantsProxy, near]);
+
+  // next/image asks the loader for the smallest configured sizes covering 1x and 2x of `width`,
+  // and those sizes are the proxy's (see next.config.ts). The proxy resizes to them, scaling the
+  // height with the box; buildProxyUrl rounds that up to a size the proxy renders too.
+  const proxyTransform = (w: number): ImageTransform => ({ w, h: Math.round((w * height) / width), fit, q: quality });
+  const transform1x = proxyTransform(snapSize(width));
+  const transform2x = proxyTransform(snapSize(width * 2));
 
-  // Determine the final image source
-  const finalSrc = useProxy && src && !src.includes('/api/image-proxy') 
-    ? `/api/image-proxy?url=${encodeURIComponent(src)}`
-    : (src || fallbackSrc);
+  // The proxy only serves signed URLs, and a signature covers one size; an image it won't sign
+  // is treated like a broken one
+  const signable = wantsProxy && near ? src : null;
+  const signature1x = useProxySignature(signable, transform1x);
+  const signature2x = useProxySignature(signable, transform2x);
+  const proxyPlaceholder = useProxyPlaceholder(wantsProxy ? src : null);
+  const placeholder = providedPlaceholder ?? proxyPlaceholder;
+  const blurDataURL = useBlurDataURL(placeholder?.blurhash);
+
+  const signed = !!signature1x && !!signature2x;
+  const showFallback = !src || failedSrc === src || (wantsProxy && (signature1x === null || signature2x === null));
+  const imageSrc = showFallback ? fallbackSrc : src;
+  const proxied = wantsProxy && !showFallback;
+  const loaded = loadedSrc === imageSrc;
+
+  const proxyLoader: ImageLoader = ({ src: original, width: requestedWidth }) =>
+    buildProxyUrl(
+      original,
+      (requestedWidth === transform1x.w ? signature1x : signature2x)!,
+      proxyTransform(requestedWidth)
+    );
+
+  // The wrapper takes the caller's sizing and shape and shows the placeholder; the image fills
+  // it and fades in once loaded
+  const objectClasses = className.split(/\s+/).filter(name => name.startsWith('object-')).join(' ');
+  const wrapperStyle: CSSProperties = {
+    backgroundColor: placeholder?.color,
+    backgroundImage: blurDataURL ? `url(${blurDataURL})` : undefined,
+    backgroundSize: 'cover',
+    backgroundPosition: 'center',
+    // Holds the space until the image's own proportions are known
+    aspectRatio: loaded ? undefined : `${width} / ${height}`,
+  };
 
   return (
-    <Image
-      src={finalSrc}
-      alt={alt}
-      width={width}
-      height={height}
-      className={className}
-      onError={handleError}
-      unoptimized={useProxy || (finalSrc ? finalSrc.includes('/api/image-proxy') : false)}
-    />
+    <span ref={wrapperRef} className={`block overflow-hidden bg-gray-100 ${className}`} style={wrapperStyle}>
+      {(!proxied || signed) && (
+        <Image
+          src={imageSrc}
+          alt={alt}
+          width={width}
+          height={height}
+          className={`block w-full h-full ${objectClasses} transition-opacity duration-300 motion-reduce:transition-none ${
+            loaded ? 'opacity-100' : 'opacity-0'
+          }`}
+          quality={quality}
+          loading={priority ? 'eager' : 'lazy'}
+          fetchPriority={priority ? 'high' : undefined}
+          onLoad={() => setLoadedSrc(imageSrc)}
+          onError={() => setFailedSrc(src ?? null)}
+          loader={proxied ? proxyLoader : undefined}
+          unoptimized={showFallback || isProxyUrl(imageSrc)}
+        />
+      )}
+    </span>
   );
 }
@@ -0,0 +1,82 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+
+// Wait for a pause in typing before navigating to the results
+const SEARCH_DEBOUNCE = 300;
+
+interface SearchBoxProps {
+  initialQuery?: string;
+  autoFocus?: boolean;
+}
+
+// Nav search field. From other pages it opens /search as a new history entry; on /search itself
+// it replaces the query in place so typing doesn't add an entry per keystroke.
+export default function SearchBox({ initialQuery = '', autoFocus = false }: SearchBoxProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const [query, setQuery] = useState(initialQuery);
+  const [lastNavigated, setLastNavigated] = useState(initialQuery.trim());
+  const [previousInitialQuery, setPreviousInitialQuery] = useState(initialQuery);
+
+  // Follow the URL when it changes underneath us (back/forward), but not when it merely
+  // catches up with what is being typed
+  if (initialQuery !== previousInitialQuery) {
+    setPreviousInitialQuery(initialQuery);
+    if (initialQuery !== lastNavigated) {
+      setQuery(initialQuery);
+      setLastNavigated(initialQuery);
+    }
+  }
+
+  const navigate = useCallback((trimmed: string) => {
+    setLastNavigated(trimmed);
+
+    // Keep the selected tab when searching again from the results page
+    const params = new URLSearchParams(pathname === '/search' ? window.location.search : '');
+    if (trimmed) {
+      params.set('q', trimmed);
+    } else {
+      params.delete('q');
+    }
+    const url = `/search?${params}`;
+
+    if (pathname === '/search') {
+      router.replace(url);
+    } else {
+      router.push(url);
+    }
+  }, [router, pathname]);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed === lastNavigated || (!trimmed && pathname !== '/search')) return;
+
+    const timer = setTimeout(() => navigate(trimmed), SEARCH_DEBOUNCE);
+    return () => clearTimeout(timer);
+  }, [query, lastNavigated, pathname, navigate]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    navigate(query.trim());
+  };
+
+  return (
+    <form onSubmit={handleSubmit} role="search" className="relative">
+      <svg className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2 pointer-events-none" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+      </svg>
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        onFocus={(e) => e.target.setSelectionRange(e.target.value.length, e.target.value.length)}
+        placeholder="Search"
+        aria-label="Search posts, users and tags"
+        autoFocus={autoFocus}
+        className="w-48 sm:w-64 pl-9 pr-3 py-2 bg-gray-100 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:bg-white outline-none transition-colors"
+      />
+    </form>
+  );
+}
@@ -1,3 +1,7 @@
+// Realtime is off unless an event endpoint is configured, or the local mock is opted into
+const REALTIME_URL = process.env.NEXT_PUBLIC_REALTIME_URL
+  || (process.env.NEXT_PUBLIC_REALTIME_MOCK === '1' ? '/api/realtime/mock' : '');
+
 // API Configuration based on http://instaapp.test/docs?api-docs.json
 export const API_CONFIG = {
   BASE_URL: process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000/api',
@@ -6,18 +10,48 @@ export const API_CONFIG = {
     REGISTER: '/register',
     LOGOUT: '/logout',
     PROFILE: '/me',
+    PASSWORD: '/me/password',
     POSTS: '/post',
     USERS: '/users',
+    NOTIFICATIONS: '/notifications',
+    TAGS: '/tags',
+    UPLOADS: '/uploads',
+    REALTIME_TICKET: '/realtime/ticket',
   },
   TIMEOUT: 10000, // 10 seconds
+  RETRY: {
+    MAX_RETRIES: 3,
+    BASE_DELAY: 500, // first backoff step in ms, doubled on every retry
+    MAX_DELAY: 10000, // cap for backoff and Retry-After waits
+  },
+  UPLOAD: {
+    MAX_FILE_SIZE: 10 * 1024 * 1024, // largest image the API accepts
+    TARGET_FILE_SIZE: 2 * 1024 * 1024, // re-encoded images are compressed until they fit
+    MAX_IMAGE_DIMENSION: 2048, // longest edge after resizing, in px
+    MAX_SOURCE_FILE_SIZE: 50 * 1024 * 1024, // originals above this aren't worth decoding in the browser
+    TIMEOUT: 120000, // per upload request; slow connections need far longer than TIMEOUT
+    CHUNK_SIZE: 1024 * 1024, // bytes per resumable upload chunk
+    MAX_RESUME_ATTEMPTS: 5, // consecutive failed chunks before giving up
+  },
+  REALTIME: {
+    // 'sse' | 'websocket' | 'none'; 'sse' by default once there is a URL to connect to
+    TRANSPORT: (process.env.NEXT_PUBLIC_REALTIME_TRANSPORT || (REALTIME_URL ? 'sse' : 'none')) as RealtimeTransport,
+    URL: REALTIME_URL,
+    RECONNECT_DELAY: 1000, // doubled after every failed attempt
+    MAX_RECONNECT_DELAY: 30000,
+  },
 };
 
+export type RealtimeTransport = 'sse' | 'websocket' | 'none';
+
 // API Response Types
 export interface ApiResponse<T = unknown> {
   success: boolean;
   data?: T;
   message?: string;
   errors?: Record<string, string[]>;
+  // HTTP status code, 0 when no response was received
+  status?: number;
 }
 
 export interface PostsResponse {
@@ -42,9 +76,52 @@ export interface User {
   email: string;
   created_at: string;
   updated_at: string;
+  followers_count: number;
+  following_count: number;
   permissions: Permissions;
 }
 
+// Public profile shown on /users/[id]
+export interface UserProfile {
+  id: number;
+  name: string;
+  created_at: string;
+  posts_count: number;
+  followers_count: number;
+  following_count: number;
+  // Whether the current user follows this account
+  is_following: boolean;
+}
+
+export interface UserProfileResponse {
+  user: UserProfile;
+}
+
+export interface UsersResponse {
+  users: UserProfile[];
+  pagination: Pagination;
+}
+
+export interface Tag {
+  name: string;
+  posts_count: number;
+}
+
+export interface TagsResponse {
+  tags: Tag[];
+  pagination: Pagination;
+}
+
+export type SearchType = 'users' | 'posts' | 'tags';
+
+export interface FollowResponse {
+  is_following: boolean;
+  followers_count: number;
+}
+
+// 'global' lists everyone's posts, 'following' only posts by followed users
+export type FeedType = 'global' | 'following';
+
 export interface Permissions {
   can_create_post: boolean;
   can_update_post: boolean;
@@ -69,6 +146,17 @@ export interface RegisterRequest {
   password_confirmation: string;
 }
 
+export interface UpdateProfileRequest {
+  name: string;
+  email: string;
+}
+
+export interface ChangePasswordRequest {
+  current_password: string;
+  password: string;
+  password_confirmation: string;
+}
+
 // Response interfaces based on API docs
 export interface AuthResponse {
   user: User;
@@ -77,27 +165,49 @@ export interface AuthResponse {
 }
 
 // Post interfaces based on Instagram-like API
+// Low-quality stand-in shown while an image loads; either field may be missing
+export interface ImagePlaceholder {
+  // Dominant colour, as #rrggbb
+  color?: string;
+  blurhash?: string;
+}
+
 export interface Post {
   id: number;
   user_id: number;
   content: string;
+  // Cover image, the same as images[0]; posts made before carousels only have this
   image_url: string;
+  // Every image in carousel order; the ApiClient fills it from image_url for older posts
+  images: string[];
+  // Placeholders for `images`, index for index, when the API has computed them
+  image_placeholders?: (ImagePlaceholder | null)[];
   likes_count: number;
   comments_count: number;
   created_at: number;
   updated_at: number;
+  // Unix seconds the post goes live; only set while it's still scheduled
+  publish_at?: number | null;
   user: {
     id: number;
     name: string;
+    is_following?: boolean;
   };
   comments: Comment[];
   is_liked: boolean;
 }
 
+export const MAX_POST_IMAGES = 10;
+
 export interface CommentResponse {
   comment: Comment;
 }
 
+export interface CommentsResponse {
+  comments: Comment[];
+  pagination: Pagination;
+}
+
 export interface Comment {
   id: number;
   post_id: number;
@@ -110,16 +220,67 @@ export interface Comment {
   };
 }
 
+export interface PostResponse {
+  post: Post;
+}
+
 export interface CreatePostRequest {
   content: string;
   image: string;
 }
 
+export interface UpdatePostRequest {
+  content: string;
+  image?: File | null;
+  // Reschedules a post that hasn't been published yet
+  publish_at?: number;
+}
+
+// Server-side upload session for one file, filled chunk by chunk
+export interface UploadSession {
+  upload_id: string;
+  size: number;
+  // Bytes stored so far; the next chunk starts here
+  received: number;
+}
+
+export interface UploadSessionResponse {
+  upload: UploadSession;
+}
+
+export interface CreateUploadRequest {
+  filename: string;
+  size: number;
+  type: string;
+}
+
+export interface CreatePostWithUploadsRequest {
+  content: string;
+  // Completed uploads in carousel order
+  upload_ids: string[];
+  publish_at?: number;
+}
+
+// Multipart fallback for createPostWithUploads: the files themselves, in carousel order; the first
+// becomes the cover
+export interface CreatePostWithFileRequest {
+  content: string;
+  images: File[];
+  // Unix seconds; publishes immediately when omitted
+  publish_at?: number;
+}
+
 export interface CreateCommentRequest {
   post_id: number;
   content: string;
 }
 
+export interface UpdateCommentRequest {
+  post_id: number;
+  comment_id: number;
+  content: string;
+}
+
 export interface LikePostRequest {
   post_id: number;
 }
@@ -127,3 +288,43 @@ export interface LikePostRequest {
 export interface PostsResponse {
   posts: Post[];
 }
+
+export type NotificationType = 'like' | 'comment' | 'mention';
+
+export interface UserNotification {
+  id: number;
+  type: NotificationType;
+  // The user who liked, commented or mentioned
+  actor: {
+    id: number;
+    name: string;
+  };
+  post_id: number;
+  comment_id: number | null;
+  read_at: number | null;
+  created_at: number;
+}
+
+export interface NotificationsResponse {
+  notifications: UserNotification[];
+  pagination: Pagination;
+}
+
+export interface UnreadCountResponse {
+  unread_count: number;
+}
+
+// Events pushed by the realtime channel, one JSON object per message
+export type RealtimeEvent =
+  | { type: 'post.created'; post: Post }
+  | { type: 'post.liked'; post_id: number; likes_count: number }
+  | { type: 'comment.created'; comment: Comment }
+  | { type: 'notification.created'; notification: UserNotification };
+
+// Single-use credential for opening the realtime connection, so the long-lived token never
+// ends up in a URL
+export interface RealtimeTicketResponse {
+  ticket: string;
+  // Seconds
+  expires_in: number;
+}
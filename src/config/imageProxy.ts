@@ -0,0 +1,43 @@
+import { randomBytes } from 'node:crypto';
+import path from 'node:path';
+
+// Server-side settings for /api/image-proxy. Read from the environment on the server only, so
+// none of this ends up in the client bundle.
+
+// Comma separated; `*.example.com` matches example.com and any of its subdomains
+function parseHosts(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+// Route handlers are bundled separately, and in development each bundle may load its own copy
+// of this module. The random development key lives on globalThis so the sign route and the proxy
+// share one per server process.
+const devSecretStore = globalThis as typeof globalThis & { __imageProxyDevSecret?: string };
+
+function signingSecret(): string {
+  if (process.env.IMAGE_PROXY_SECRET) return process.env.IMAGE_PROXY_SECRET;
+  if (process.env.NODE_ENV === 'production') return '';
+  return devSecretStore.__imageProxyDevSecret ??= randomBytes(32).toString('hex');
+}
+
+export const IMAGE_PROXY_CONFIG = {
+  // Empty allows any public host; private, loopback and link-local addresses are refused either way
+  ALLOWED_HOSTS: parseHosts(process.env.IMAGE_PROXY_ALLOWED_HOSTS),
+  MAX_REDIRECTS: 5,
+  MAX_BYTES: Number(process.env.IMAGE_PROXY_MAX_BYTES) || 10 * 1024 * 1024, // larger images are cut off with an error
+  TIMEOUT: 10000, // whole upstream fetch including the body, in ms
+  DEFAULT_MAX_AGE: 24 * 60 * 60, // seconds, when upstream sends no Cache-Control
+  DEFAULT_QUALITY: 75,
+  // Resized variants are kept here until their upstream max-age runs out
+  CACHE_DIR: process.env.IMAGE_PROXY_CACHE_DIR || path.join(process.cwd(), '.next', 'cache', 'image-proxy'),
+  // Past this, the least recently used variants are evicted
+  CACHE_MAX_BYTES: Number(process.env.IMAGE_PROXY_CACHE_MAX_BYTES) || 512 * 1024 * 1024,
+  // HMAC key for signed proxy URLs. Required in production; during development a random key is
+  // made per server process, so signed URLs stop working after a restart.
+  SIGNING_SECRET: signingSecret(),
+  SIGNATURE_TTL: 60 * 60, // seconds a signed URL stays valid, at least; see lib/proxySignature
+  AUTH_CACHE_TTL: 5 * 60 * 1000, // how long a checked auth token is trusted without asking the API again, in ms
+};
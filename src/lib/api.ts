@@ -1,82 +1,235 @@
-import { API_CONFIG, ApiResponse, LoginRequest, RegisterRequest, AuthResponse, UserResponse, CreatePostRequest, CreateCommentRequest, PostsResponse, CommentResponse } from '@/config/api';
+import { API_CONFIG, ApiResponse, CreateUploadRequest, CreatePostRequest, CreatePostWithFileRequest, CreatePostWithUploadsRequest, UploadSessionResponse, RealtimeTicketResponse, LoginRequest, RegisterRequest, UpdateProfileRequest, ChangePasswordRequest, AuthResponse, UserResponse, UserProfileResponse, UsersResponse, TagsResponse, FollowResponse, FeedType, UpdatePostRequest, CreateCommentRequest, UpdateCommentRequest, PostsResponse, PostResponse, CommentResponse, CommentsResponse, NotificationsResponse, UnreadCountResponse } from '@/config/api';
+import {
+  Transport,
+  UploadProgress,
+  RequestConfig,
+  RequestInterceptor,
+  ResponseInterceptor,
+  createAuthInterceptor,
+  createSessionExpiryInterceptor,
+  normalizeErrorInterceptor,
+  normalizePostsInterceptor,
+  loggingRequestInterceptor,
+  loggingResponseInterceptor,
+} from '@/lib/interceptors';
+import { sleep, waitForOnline } from '@/lib/network';
+import { xhrTransport } from '@/lib/xhrTransport';
+
+// Dispatched on window when the API rejects the stored token
+export const SESSION_EXPIRED_EVENT = 'session-expired';
+
+// Statuses worth retrying: the request either never reached the app or was rate limited
+const RETRYABLE_STATUSES = [429, 502, 503];
+const IDEMPOTENT_METHODS = ['GET', 'HEAD'];
+
+// Retry-After is either a number of seconds or an HTTP date; returns milliseconds to wait
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelay: number;
+  maxDelay: number;
+}
 
-class ApiClient {
+// Per-call overrides
+export interface RequestOptions {
+  timeout?: number;
+  // Aborting cancels the request, including any pending retries
+  signal?: AbortSignal;
+  onUploadProgress?: (progress: UploadProgress) => void;
+  // Sent as Idempotency-Key, so the server can recognise a mutation it has already applied
+  idempotencyKey?: string;
+}
+
+export interface ApiClientOptions {
+  baseURL?: string;
+  timeout?: number;
+  transport?: Transport;
+  retry?: Partial<RetryOptions>;
+}
+
+export class ApiClient {
   private baseURL: string;
   private timeout: number;
+  private transport: Transport;
+  private retry: RetryOptions;
+  private requestInterceptors: RequestInterceptor[] = [];
+  private responseInterceptors: ResponseInterceptor[] = [];
+  private sessionExpiredListeners = new Set<() => void>();
+
+  constructor(options: ApiClientOptions = {}) {
+    this.baseURL = options.baseURL ?? API_CONFIG.BASE_URL;
+    this.timeout = options.timeout ?? API_CONFIG.TIMEOUT;
+    this.transport = options.transport ?? ((url, init, transportOptions) =>
+      transportOptions?.onUploadProgress && typeof XMLHttpRequest !== 'undefined'
+        ? xhrTransport(url, init, transportOptions)
+        : fetch(url, init));
+    this.retry = {
+      maxRetries: API_CONFIG.RETRY.MAX_RETRIES,
+      baseDelay: API_CONFIG.RETRY.BASE_DELAY,
+      maxDelay: API_CONFIG.RETRY.MAX_DELAY,
+      ...options.retry,
+    };
+  }
 
-  constructor() {
-    this.baseURL = API_CONFIG.BASE_URL;
-    this.timeout = API_CONFIG.TIMEOUT;
+  // Interceptors run in registration order; the returned function removes the interceptor again
+  useRequestInterceptor(interceptor: RequestInterceptor): () => void {
+    this.requestInterceptors.push(interceptor);
+    return () => {
+      this.requestInterceptors = this.requestInterceptors.filter(i => i !== interceptor);
+    };
+  }
+
+  useResponseInterceptor(interceptor: ResponseInterceptor): () => void {
+    this.responseInterceptors.push(interceptor);
+    return () => {
+      this.responseInterceptors = this.responseInterceptors.filter(i => i !== interceptor);
+    };
   }
 
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    requestOptions: RequestOptions = {}
   ): Promise<ApiResponse<T>> {
-    const url = `${this.baseURL}${endpoint}`;
-    
-    const config: RequestInit = {
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-        ...options.headers,
-      },
-      ...options,
-    };
-
-    // Add authorization header if token exists
-    const token = this.getToken();
-    if (token) {
-      config.headers = {
-        ...config.headers,
-        'Authorization': `Bearer ${token}`,
-      };
+    const headers = new Headers(options.headers);
+    headers.set('Accept', 'application/json');
+    // Let the browser set the multipart boundary for FormData bodies
+    if (!(options.body instanceof FormData) && !headers.has('Content-Type')) {
+      headers.set('Content-Type', 'application/json');
+    }
+    if (requestOptions.idempotencyKey) {
+      headers.set('Idempotency-Key', requestOptions.idempotencyKey);
     }
 
-    try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    let config: RequestConfig = {
+      url: `${this.baseURL}${endpoint}`,
+      init: { ...options, headers },
+    };
+    for (const interceptor of this.requestInterceptors) {
+      config = await interceptor(config);
+    }
 
-      const response = await fetch(url, {
-        ...config,
-        signal: controller.signal,
-      });
+    let result: ApiResponse;
+    let response: Response | null;
+    let error: unknown;
 
-      clearTimeout(timeoutId);
+    for (let attempt = 0; ; attempt++) {
+      // Hold the request while the browser is offline instead of failing straight away
+      await waitForOnline(requestOptions.signal);
 
-      const data = await response.json();
+      ({ result, response, error } = await this.send(config, requestOptions));
+      if (requestOptions.signal?.aborted) break;
 
-      if (!response.ok) {
-        return {
-          success: false,
-          message: data.message || 'An error occurred',
-          errors: data.errors,
-        };
+      const delay = this.getRetryDelay(config, response, error, attempt);
+      if (delay === null) break;
+      await sleep(delay, requestOptions.signal);
+      if (requestOptions.signal?.aborted) {
+        result = { success: false, status: 0 };
+        error = new Error('Request cancelled');
+        break;
       }
+    }
 
+    for (const interceptor of this.responseInterceptors) {
+      result = await interceptor(result, { config, response, error });
+    }
+    return result as ApiResponse<T>;
+  }
+
+  private async send(
+    config: RequestConfig,
+    { timeout = this.timeout, signal, onUploadProgress }: RequestOptions = {}
+  ): Promise<{ result: ApiResponse; response: Response | null; error?: unknown }> {
+    let response: Response | null = null;
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const cancel = () => controller.abort();
+    if (signal?.aborted) {
+      controller.abort();
+    } else {
+      signal?.addEventListener('abort', cancel, { once: true });
+    }
+    try {
+      response = await this.transport(config.url, {
+        ...config.init,
+        signal: controller.signal,
+      }, { onUploadProgress });
+      return { result: await this.parseResponse(response), response };
+    } catch (error) {
+      // Both the timeout and a cancel surface as AbortError; only the caller knows which it was
       return {
-        success: true,
-        data: data.data || data,
-        message: data.message,
+        result: { success: false, status: response?.status ?? 0 },
+        response,
+        error: signal?.aborted ? new Error('Request cancelled') : error,
       };
-    } catch (error) {
-      if (error instanceof Error) {
-        if (error.name === 'AbortError') {
-          return {
-            success: false,
-            message: 'Request timeout. Please try again.',
-          };
-        }
-        return {
-          success: false,
-          message: error.message || 'Network error occurred',
-        };
-      }
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', cancel);
+    }
+  }
+
+  // Returns how long to wait before retrying, or null when the request should not be retried
+  private getRetryDelay(
+    config: RequestConfig,
+    response: Response | null,
+    error: unknown,
+    attempt: number
+  ): number | null {
+    if (attempt >= this.retry.maxRetries) return null;
+
+    const method = (config.init.method || 'GET').toUpperCase();
+    const isIdempotent = IDEMPOTENT_METHODS.includes(method);
+    const retryAfter = response ? parseRetryAfter(response.headers.get('Retry-After')) : null;
+
+    if (!response) {
+      // Network error or timeout: only safe to repeat requests without side effects
+      if (!isIdempotent || !error) return null;
+    } else if (!RETRYABLE_STATUSES.includes(response.status)) {
+      return null;
+    } else if (!isIdempotent && retryAfter === null) {
+      // A mutation is only repeated when the server explicitly asks us to come back later
+      return null;
+    }
+
+    if (retryAfter !== null) {
+      return Math.min(retryAfter, this.retry.maxDelay);
+    }
+    // Exponential backoff with full jitter
+    const backoff = Math.min(this.retry.baseDelay * 2 ** attempt, this.retry.maxDelay);
+    return Math.random() * backoff;
+  }
+
+  private async parseResponse(response: Response): Promise<ApiResponse> {
+    // Some endpoints (e.g. DELETE) reply with an empty body
+    const text = await response.text();
+    const data = text ? JSON.parse(text) : {};
+
+    if (!response.ok) {
       return {
         success: false,
-        message: 'An unexpected error occurred',
+        message: data.message,
+        errors: data.errors,
+        status: response.status,
       };
     }
+
+    return {
+      success: true,
+      data: data.data || data,
+      message: data.message,
+      status: response.status,
+    };
   }
 
   // Auth methods based on API docs
@@ -134,20 +287,133 @@ class ApiClient {
     return !!this.getToken();
   }
 
+  onSessionExpired(listener: () => void): () => void {
+    this.sessionExpiredListeners.add(listener);
+    return () => {
+      this.sessionExpiredListeners.delete(listener);
+    };
+  }
+
+  // Clears the token and notifies listeners; repeated 401s from parallel requests only notify once
+  expireSession(): void {
+    if (!this.getToken()) return;
+
+    this.removeToken();
+    this.sessionExpiredListeners.forEach(listener => listener());
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent(SESSION_EXPIRED_EVENT));
+    }
+  }
+
   // User methods
   async getProfile(): Promise<ApiResponse<UserResponse>> {
     return this.request<UserResponse>(API_CONFIG.ENDPOINTS.PROFILE);
   }
 
+  async updateProfile(profileData: UpdateProfileRequest): Promise<ApiResponse<UserResponse>> {
+    return this.request<UserResponse>(API_CONFIG.ENDPOINTS.PROFILE, {
+      method: 'PUT',
+      body: JSON.stringify(profileData),
+    });
+  }
+
+  async changePassword(passwordData: ChangePasswordRequest): Promise<ApiResponse> {
+    return this.request(API_CONFIG.ENDPOINTS.PASSWORD, {
+      method: 'PUT',
+      body: JSON.stringify(passwordData),
+    });
+  }
+
+  async getUser(userId: number): Promise<ApiResponse<UserProfileResponse>> {
+    return this.request<UserProfileResponse>(`${API_CONFIG.ENDPOINTS.USERS}/${userId}`);
+  }
+
+  // Looks a user up by mention handle (their name without whitespace)
+  async getUserByName(name: string): Promise<ApiResponse<UserProfileResponse>> {
+    return this.request<UserProfileResponse>(`${API_CONFIG.ENDPOINTS.USERS}/by-name/${encodeURIComponent(name)}`);
+  }
+
+  async searchUsers(query: string, page: number = 1, perPage: number = 5): Promise<ApiResponse<UsersResponse>> {
+    const params = new URLSearchParams({
+      search: query,
+      page: page.toString(),
+      per_page: perPage.toString(),
+    });
+    return this.request<UsersResponse>(`${API_CONFIG.ENDPOINTS.USERS}?${params}`);
+  }
+
+  async getUserPosts(userId: number, page: number = 1, perPage: number = 12): Promise<ApiResponse<PostsResponse>> {
+    const params = new URLSearchParams({
+      page: page.toString(),
+      per_page: perPage.toString(),
+    });
+    return this.request<PostsResponse>(`${API_CONFIG.ENDPOINTS.USERS}/${userId}/posts?${params}`);
+  }
+
+  async followUser(userId: number): Promise<ApiResponse<FollowResponse>> {
+    return this.request<FollowResponse>(`${API_CONFIG.ENDPOINTS.USERS}/${userId}/follow`, {
+      method: 'POST',
+    });
+  }
+
+  async unfollowUser(userId: number): Promise<ApiResponse<FollowResponse>> {
+    return this.request<FollowResponse>(`${API_CONFIG.ENDPOINTS.USERS}/${userId}/follow`, {
+      method: 'DELETE',
+    });
+  }
+
   // Posts methods
-  async getPosts(page: number = 1, perPage: number = 10): Promise<ApiResponse<PostsResponse>> {
+  async getPosts(page: number = 1, perPage: number = 10, feed: FeedType = 'global'): Promise<ApiResponse<PostsResponse>> {
+    const params = new URLSearchParams({
+      page: page.toString(),
+      per_page: perPage.toString(),
+    });
+    if (feed === 'following') {
+      params.set('feed', 'following');
+    }
+    return this.request<PostsResponse>(`${API_CONFIG.ENDPOINTS.POSTS}?${params}`);
+  }
+
+  async searchPosts(query: string, page: number = 1, perPage: number = 12): Promise<ApiResponse<PostsResponse>> {
     const params = new URLSearchParams({
+      search: query,
       page: page.toString(),
       per_page: perPage.toString(),
     });
     return this.request<PostsResponse>(`${API_CONFIG.ENDPOINTS.POSTS}?${params}`);
   }
 
+  async searchTags(query: string, page: number = 1, perPage: number = 20): Promise<ApiResponse<TagsResponse>> {
+    const params = new URLSearchParams({
+      search: query,
+      page: page.toString(),
+      per_page: perPage.toString(),
+    });
+    return this.request<TagsResponse>(`${API_CONFIG.ENDPOINTS.TAGS}?${params}`);
+  }
+
+  async getTagPosts(tag: string, page: number = 1, perPage: number = 12): Promise<ApiResponse<PostsResponse>> {
+    const params = new URLSearchParams({
+      page: page.toString(),
+      per_page: perPage.toString(),
+    });
+    return this.request<PostsResponse>(`${API_CONFIG.ENDPOINTS.TAGS}/${encodeURIComponent(tag)}/posts?${params}`);
+  }
+
+  // The current user's posts waiting for their publish time, soonest first
+  async getScheduledPosts(page: number = 1, perPage: number = 20): Promise<ApiResponse<PostsResponse>> {
+    const params = new URLSearchParams({
+      status: 'scheduled',
+      page: page.toString(),
+      per_page: perPage.toString(),
+    });
+    return this.request<PostsResponse>(`${API_CONFIG.ENDPOINTS.POSTS}?${params}`);
+  }
+
+  async getPost(postId: number): Promise<ApiResponse<PostResponse>> {
+    return this.request<PostResponse>(`${API_CONFIG.ENDPOINTS.POSTS}/${postId}`);
+  }
+
   async createPost(postData: CreatePostRequest): Promise<ApiResponse<PostsResponse>> {
     return this.request<PostsResponse>(API_CONFIG.ENDPOINTS.POSTS, {
       method: 'POST',
@@ -155,96 +421,180 @@ class ApiClient {
     });
   }
 
-  async createPostWithFile(formData: FormData): Promise<ApiResponse<PostsResponse>> {
-    const url = `${this.baseURL}${API_CONFIG.ENDPOINTS.POSTS}`;
-    
-    const config: RequestInit = {
+  // Plain multipart post, for APIs without the resumable upload endpoints
+  async createPostWithFile(postData: CreatePostWithFileRequest, options: RequestOptions = {}): Promise<ApiResponse<PostsResponse>> {
+    const formData = new FormData();
+    formData.append('content', postData.content);
+    postData.images.forEach(image => formData.append('images[]', image));
+    if (postData.publish_at !== undefined) {
+      formData.append('publish_at', String(postData.publish_at));
+    }
+    return this.request<PostsResponse>(API_CONFIG.ENDPOINTS.POSTS, {
       method: 'POST',
       body: formData,
-      headers: {
-        'Accept': 'application/json',
-      },
-    };
-
-    // Add authorization header if token exists
-    const token = this.getToken();
-    if (token) {
-      config.headers = {
-        ...config.headers,
-        'Authorization': `Bearer ${token}`,
-      };
-    }
-
-    try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    }, { timeout: API_CONFIG.UPLOAD.TIMEOUT, ...options });
+  }
 
-      const response = await fetch(url, {
-        ...config,
-        signal: controller.signal,
-      });
+  // Creates a post from images already sent through the resumable upload endpoints
+  async createPostWithUploads(postData: CreatePostWithUploadsRequest, options: RequestOptions = {}): Promise<ApiResponse<PostsResponse>> {
+    return this.request<PostsResponse>(API_CONFIG.ENDPOINTS.POSTS, {
+      method: 'POST',
+      body: JSON.stringify(postData),
+    }, options);
+  }
 
-      clearTimeout(timeoutId);
+  // Resumable uploads: open a session, send the file in Content-Range chunks and ask for the
+  // stored offset to pick up where a dropped connection left off (see lib/uploads)
+  async createUpload(uploadData: CreateUploadRequest, options: RequestOptions = {}): Promise<ApiResponse<UploadSessionResponse>> {
+    return this.request<UploadSessionResponse>(API_CONFIG.ENDPOINTS.UPLOADS, {
+      method: 'POST',
+      body: JSON.stringify(uploadData),
+    }, options);
+  }
 
-      const data = await response.json();
+  async getUpload(uploadId: string, options: RequestOptions = {}): Promise<ApiResponse<UploadSessionResponse>> {
+    return this.request<UploadSessionResponse>(`${API_CONFIG.ENDPOINTS.UPLOADS}/${encodeURIComponent(uploadId)}`, {}, options);
+  }
 
-      if (!response.ok) {
-        return {
-          success: false,
-          message: data.message || 'An error occurred',
-          errors: data.errors,
-        };
-      }
+  async uploadChunk(
+    uploadId: string,
+    chunk: Blob,
+    offset: number,
+    totalSize: number,
+    options: RequestOptions = {}
+  ): Promise<ApiResponse<UploadSessionResponse>> {
+    return this.request<UploadSessionResponse>(`${API_CONFIG.ENDPOINTS.UPLOADS}/${encodeURIComponent(uploadId)}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Content-Range': `bytes ${offset}-${offset + chunk.size - 1}/${totalSize}`,
+      },
+      body: chunk,
+    }, { timeout: API_CONFIG.UPLOAD.TIMEOUT, ...options });
+  }
 
-      return {
-        success: true,
-        data: data.data || data,
-        message: data.message,
-      };
-    } catch (error) {
-      if (error instanceof Error) {
-        if (error.name === 'AbortError') {
-          return {
-            success: false,
-            message: 'Request timeout. Please try again.',
-          };
-        }
-        return {
-          success: false,
-          message: error.message || 'Network error occurred',
-        };
-      }
-      return {
-        success: false,
-        message: 'An unexpected error occurred',
-      };
+  async updatePost(postId: number, postData: UpdatePostRequest, options: RequestOptions = {}): Promise<ApiResponse<PostResponse>> {
+    // Laravel only parses multipart bodies on POST, so spoof the PUT method
+    const formData = new FormData();
+    formData.append('_method', 'PUT');
+    formData.append('content', postData.content);
+    if (postData.image) {
+      formData.append('image', postData.image);
     }
+    if (postData.publish_at !== undefined) {
+      formData.append('publish_at', String(postData.publish_at));
+    }
+    return this.request<PostResponse>(`${API_CONFIG.ENDPOINTS.POSTS}/${postId}`, {
+      method: 'POST',
+      body: formData,
+    }, postData.image ? { timeout: API_CONFIG.UPLOAD.TIMEOUT, ...options } : options);
   }
 
-  async likePost(postId: number): Promise<ApiResponse<{ is_liked: boolean; likes_count: number }>> {
+  async deletePost(postId: number): Promise<ApiResponse> {
+    return this.request(`${API_CONFIG.ENDPOINTS.POSTS}/${postId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async likePost(postId: number, options: RequestOptions = {}): Promise<ApiResponse<{ is_liked: boolean; likes_count: number }>> {
     return this.request<{ is_liked: boolean; likes_count: number }>(`${API_CONFIG.ENDPOINTS.POSTS}/${postId}/like`, {
       method: 'POST',
-    });
+    }, options);
   }
 
-  async unlikePost(postId: number): Promise<ApiResponse<{ is_liked: boolean; likes_count: number }>> {
+  async unlikePost(postId: number, options: RequestOptions = {}): Promise<ApiResponse<{ is_liked: boolean; likes_count: number }>> {
     return this.request<{ is_liked: boolean; likes_count: number }>(`${API_CONFIG.ENDPOINTS.POSTS}/${postId}/like`, {
       method: 'DELETE',
-    });
+    }, options);
   }
 
-  async createComment(commentData: CreateCommentRequest): Promise<ApiResponse<CommentResponse>> {
+  async createComment(commentData: CreateCommentRequest, options: RequestOptions = {}): Promise<ApiResponse<CommentResponse>> {
     return this.request<CommentResponse>(`${API_CONFIG.ENDPOINTS.POSTS}/${commentData.post_id}/comment`, {
       method: 'POST',
       body: JSON.stringify({ content: commentData.content }),
+    }, options);
+  }
+
+  async updateComment(commentData: UpdateCommentRequest): Promise<ApiResponse<CommentResponse>> {
+    return this.request<CommentResponse>(`${API_CONFIG.ENDPOINTS.POSTS}/${commentData.post_id}/comment/${commentData.comment_id}`, {
+      method: 'PUT',
+      body: JSON.stringify({ content: commentData.content }),
+    });
+  }
+
+  async deleteComment(postId: number, commentId: number): Promise<ApiResponse> {
+    return this.request(`${API_CONFIG.ENDPOINTS.POSTS}/${postId}/comment/${commentId}`, {
+      method: 'DELETE',
     });
   }
 
-  async getPostComments(postId: number): Promise<ApiResponse<CommentResponse[]>> {
-    return this.request<CommentResponse[]>(`${API_CONFIG.ENDPOINTS.POSTS}/${postId}/comment`);
+  async getPostComments(postId: number, page: number = 1, perPage: number = 20): Promise<ApiResponse<CommentsResponse>> {
+    const params = new URLSearchParams({
+      page: page.toString(),
+      per_page: perPage.toString(),
+    });
+    return this.request<CommentsResponse>(`${API_CONFIG.ENDPOINTS.POSTS}/${postId}/comment?${params}`);
   }
+
+  // Notification methods
+  async getNotifications(page: number = 1, perPage: number = 20): Promise<ApiResponse<NotificationsResponse>> {
+    const params = new URLSearchParams({
+      page: page.toString(),
+      per_page: perPage.toString(),
+    });
+    return this.request<NotificationsResponse>(`${API_CONFIG.ENDPOINTS.NOTIFICATIONS}?${params}`);
+  }
+
+  async getUnreadNotificationsCount(): Promise<ApiResponse<UnreadCountResponse>> {
+    return this.request<UnreadCountResponse>(`${API_CONFIG.ENDPOINTS.NOTIFICATIONS}/unread-count`);
+  }
+
+  async markNotificationsRead(notificationIds: number[]): Promise<ApiResponse<UnreadCountResponse>> {
+    return this.request<UnreadCountResponse>(`${API_CONFIG.ENDPOINTS.NOTIFICATIONS}/read`, {
+      method: 'POST',
+      body: JSON.stringify({ ids: notificationIds }),
+    });
+  }
+
+  async markAllNotificationsRead(): Promise<ApiResponse<UnreadCountResponse>> {
+    return this.request<UnreadCountResponse>(`${API_CONFIG.ENDPOINTS.NOTIFICATIONS}/read-all`, {
+      method: 'POST',
+    });
+  }
+
+  // Exchanges the bearer token for a short-lived realtime ticket
+  async getRealtimeTicket(): Promise<ApiResponse<RealtimeTicketResponse>> {
+    return this.request<RealtimeTicketResponse>(API_CONFIG.ENDPOINTS.REALTIME_TICKET, {
+      method: 'POST',
+    });
+  }
+}
+
+// Send the user back to where they were once they have signed in again
+function redirectToLogin(): void {
+  if (typeof window === 'undefined') return;
+
+  const { pathname, search } = window.location;
+  if (pathname === '/login' || pathname === '/register') return;
+
+  const params = new URLSearchParams({ redirect: `${pathname}${search}`, expired: '1' });
+  window.location.assign(`/login?${params}`);
 }
 
 // Create and export a singleton instance
 export const apiClient = new ApiClient();
+
+apiClient.useRequestInterceptor(createAuthInterceptor(() => apiClient.getToken()));
+apiClient.useResponseInterceptor(createSessionExpiryInterceptor(
+  () => apiClient.expireSession(),
+  [API_CONFIG.ENDPOINTS.LOGIN, API_CONFIG.ENDPOINTS.REGISTER]
+));
+apiClient.onSessionExpired(redirectToLogin);
+if (process.env.NODE_ENV === 'development') {
+  apiClient.useRequestInterceptor(loggingRequestInterceptor);
+  apiClient.useResponseInterceptor(loggingResponseInterceptor);
+}
+apiClient.useResponseInterceptor(normalizeErrorInterceptor);
+apiClient.useResponseInterceptor(normalizePostsInterceptor);
+
 export default apiClient;
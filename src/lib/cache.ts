@@ -0,0 +1,311 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import { Comment, FeedType, Pagination, Post, UserProfile } from '@/config/api';
+
+// Client-side entity cache shared by every page. Posts, comments and users are stored once by id and
+// lists (feeds, comment threads, profile grids) only hold ids, so an update made on one page is
+// immediately visible everywhere the entity is shown.
+
+// Lists older than this are refetched in the background when a page asks for them again
+export const STALE_TIME = 30 * 1000;
+
+// Users are known partially from post/comment authors and fully once their profile is loaded
+export type CachedUser = Partial<UserProfile> & { id: number; name: string };
+
+export interface CachedList {
+  ids: number[];
+  pagination: Pagination | null;
+  // 0 once invalidated, forcing the next reader to revalidate
+  updatedAt: number;
+}
+
+export interface CacheState {
+  posts: Record<number, Post>;
+  comments: Record<number, Comment>;
+  users: Record<number, CachedUser>;
+  lists: Record<string, CachedList>;
+}
+
+type ListTable = 'posts' | 'comments';
+type Entity<K extends ListTable> = CacheState[K][number];
+type Updater<T> = T | ((current: T) => T);
+
+// Well-known list keys
+export const cacheKeys = {
+  // The global feed keeps the plain 'feed' key, so invalidating 'feed' covers every tab
+  feed: (type: FeedType = 'global') => type === 'global' ? 'feed' : `feed:${type}`,
+  postComments: (postId: number) => `post:${postId}:comments`,
+  userPosts: (userId: number) => `user:${userId}:posts`,
+  tagPosts: (tag: string) => `tag:${tag}:posts`,
+  scheduledPosts: () => 'scheduled:posts',
+};
+
+class EntityCache {
+  private state: CacheState = { posts: {}, comments: {}, users: {}, lists: {} };
+  private listeners = new Set<() => void>();
+  private inFlight = new Map<string, Promise<unknown>>();
+
+  getState = (): CacheState => this.state;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private commit(next: Partial<CacheState>): void {
+    this.state = { ...this.state, ...next };
+    this.listeners.forEach(listener => listener());
+  }
+
+  // Runs the fetcher once per key at a time; concurrent callers share the same promise
+  dedupe<T>(key: string, fetcher: () => Promise<T>): Promise<T> {
+    const existing = this.inFlight.get(key);
+    if (existing) return existing as Promise<T>;
+
+    const promise = fetcher().finally(() => {
+      this.inFlight.delete(key);
+    });
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  getList(key: string): CachedList | undefined {
+    return this.state.lists[key];
+  }
+
+  isFresh(key: string, maxAge: number = STALE_TIME): boolean {
+    const list = this.state.lists[key];
+    return !!list && Date.now() - list.updatedAt < maxAge;
+  }
+
+  // Marks every list whose key starts with the prefix as stale
+  invalidate(prefix: string): void {
+    const lists = { ...this.state.lists };
+    let changed = false;
+    for (const key of Object.keys(lists)) {
+      if (key.startsWith(prefix) && lists[key].updatedAt !== 0) {
+        lists[key] = { ...lists[key], updatedAt: 0 };
+        changed = true;
+      }
+    }
+    if (changed) this.commit({ lists });
+  }
+
+  writePosts(posts: Post[]): void {
+    if (posts.length === 0) return;
+
+    const next = { ...this.state.posts };
+    const comments = { ...this.state.comments };
+    const users = { ...this.state.users };
+    for (const post of posts) {
+      next[post.id] = post;
+      users[post.user.id] = { ...users[post.user.id], ...post.user };
+      for (const comment of post.comments ?? []) {
+        comments[comment.id] = comment;
+      }
+    }
+    this.commit({ posts: next, comments, users });
+  }
+
+  writeComments(comments: Comment[]): void {
+    if (comments.length === 0) return;
+
+    const next = { ...this.state.comments };
+    const users = { ...this.state.users };
+    for (const comment of comments) {
+      next[comment.id] = comment;
+      if (comment.user) {
+        users[comment.user.id] = { ...users[comment.user.id], ...comment.user };
+      }
+    }
+    this.commit({ comments: next, users });
+  }
+
+  writeUser(user: CachedUser): void {
+    this.commit({ users: { ...this.state.users, [user.id]: { ...this.state.users[user.id], ...user } } });
+  }
+
+  // Patches the user and keeps the follow state embedded in their cached posts in sync,
+  // since writePosts would otherwise copy a stale author back over the user
+  updateUser(userId: number, patch: Partial<Omit<CachedUser, 'id'>>): void {
+    const posts = { ...this.state.posts };
+    if (patch.is_following !== undefined) {
+      for (const post of Object.values(posts)) {
+        if (post.user.id === userId) {
+          posts[post.id] = { ...post, user: { ...post.user, is_following: patch.is_following } };
+        }
+      }
+    }
+    const user = this.state.users[userId];
+    this.commit({
+      posts,
+      users: user ? { ...this.state.users, [userId]: { ...user, ...patch } } : this.state.users,
+    });
+  }
+
+  updatePost(postId: number, updater: (post: Post) => Post): void {
+    const post = this.state.posts[postId];
+    if (post) this.writePosts([updater(post)]);
+  }
+
+  // Drops the post and removes it from every list it appears in
+  removePost(postId: number): void {
+    const posts = { ...this.state.posts };
+    delete posts[postId];
+    this.commit({ posts, lists: this.withoutId(postId, key => !key.endsWith(':comments')) });
+  }
+
+  // Applies a comment change to the entity and to the preview embedded in its post
+  updateComment(commentId: number, updater: (comment: Comment) => Comment): void {
+    const comment = this.state.comments[commentId];
+    if (!comment) return;
+
+    const updated = updater(comment);
+    this.writeComments([updated]);
+    this.updatePost(updated.post_id, post => ({
+      ...post,
+      comments: post.comments.map(c => c.id === commentId ? updated : c)
+    }));
+  }
+
+  removeComment(commentId: number): void {
+    const comment = this.state.comments[commentId];
+    const comments = { ...this.state.comments };
+    delete comments[commentId];
+    this.commit({ comments, lists: this.withoutId(commentId, key => key.endsWith(':comments')) });
+
+    if (comment) {
+      this.updatePost(comment.post_id, post => ({
+        ...post,
+        comments: post.comments.filter(c => c.id !== commentId)
+      }));
+    }
+  }
+
+  private withoutId(id: number, matchesKey: (key: string) => boolean): Record<string, CachedList> {
+    const lists = { ...this.state.lists };
+    for (const key of Object.keys(lists)) {
+      if (matchesKey(key) && lists[key].ids.includes(id)) {
+        lists[key] = { ...lists[key], ids: lists[key].ids.filter(i => i !== id) };
+      }
+    }
+    return lists;
+  }
+
+  private writeEntities<K extends ListTable>(table: K, items: Entity<K>[]): void {
+    if (table === 'posts') {
+      this.writePosts(items as Post[]);
+    } else {
+      this.writeComments(items as Comment[]);
+    }
+  }
+
+  readList<K extends ListTable>(table: K, key: string): Entity<K>[] {
+    const list = this.state.lists[key];
+    if (!list) return [];
+    const entities = this.state[table] as Record<number, Entity<K>>;
+    return list.ids.map(id => entities[id]).filter(Boolean);
+  }
+
+  // Replaces the list contents with React setState semantics, keeping its pagination
+  setList<K extends ListTable>(table: K, key: string, update: Updater<Entity<K>[]>): void {
+    const next = typeof update === 'function' ? update(this.readList(table, key)) : update;
+    const existing = this.state.lists[key];
+
+    this.writeEntities(table, next);
+    this.commit({
+      lists: {
+        ...this.state.lists,
+        [key]: {
+          ids: next.map(item => item.id),
+          pagination: existing?.pagination ?? null,
+          updatedAt: existing?.updatedAt ?? Date.now(),
+        },
+      },
+    });
+  }
+
+  // Stores a fetched page. Page 1 replaces the part of the list it covers: cached ids up to the
+  // last one it still contains are dropped if the server no longer returns them (deleted, or no
+  // longer scheduled), while items loaded from later pages (and the scroll position) survive a
+  // revalidation. When page 1 is the only page it replaces the whole list. Later pages are
+  // appended without duplicates.
+  receivePage<K extends ListTable>(table: K, key: string, items: Entity<K>[], pagination: Pagination): void {
+    const existing = this.state.lists[key];
+    const pageIds = items.map(item => item.id);
+    let ids: number[];
+    let nextPagination = pagination;
+
+    if (pagination.current_page === 1) {
+      const known = existing?.ids ?? [];
+      // Where page 1 ends in the cached list: just after its last item that was already cached
+      const lastKnown = [...pageIds].reverse().find(id => known.includes(id));
+      const covered = pagination.last_page <= 1
+        ? known.length
+        : lastKnown === undefined ? 0 : known.indexOf(lastKnown) + 1;
+      ids = [...pageIds, ...known.slice(covered).filter(id => !pageIds.includes(id))];
+      if (covered < known.length && existing?.pagination && existing.pagination.current_page > 1) {
+        nextPagination = { ...pagination, current_page: existing.pagination.current_page };
+      }
+    } else {
+      const known = existing?.ids ?? [];
+      ids = [...known, ...pageIds.filter(id => !known.includes(id))];
+    }
+
+    this.writeEntities(table, items);
+    this.commit({
+      lists: {
+        ...this.state.lists,
+        [key]: { ids, pagination: nextPagination, updatedAt: Date.now() },
+      },
+    });
+  }
+}
+
+// Create and export a singleton instance
+export const cache = new EntityCache();
+
+export function useCacheState(): CacheState {
+  return useSyncExternalStore(cache.subscribe, cache.getState, cache.getState);
+}
+
+function useCachedList<K extends ListTable>(table: K, key: string) {
+  const state = useCacheState();
+  const list = state.lists[key];
+  const entities = state[table] as Record<number, Entity<K>>;
+
+  const items = useMemo(
+    () => (list?.ids ?? []).map(id => entities[id]).filter(Boolean),
+    [list, entities]
+  );
+  const setItems = useCallback(
+    (update: Updater<Entity<K>[]>) => cache.setList(table, key, update),
+    [table, key]
+  );
+
+  return { items, setItems, pagination: list?.pagination ?? null, isCached: !!list };
+}
+
+export function useCachedPosts(key: string) {
+  const { items, setItems, ...rest } = useCachedList('posts', key);
+  return { posts: items, setPosts: setItems, ...rest };
+}
+
+export function useCachedComments(key: string) {
+  const { items, setItems, ...rest } = useCachedList('comments', key);
+  return { comments: items, setComments: setItems, ...rest };
+}
+
+export function useCachedPost(postId: number) {
+  const post = useCacheState().posts[postId] ?? null;
+  const setPost = useCallback(
+    (updater: (post: Post) => Post) => cache.updatePost(postId, updater),
+    [postId]
+  );
+  return [post, setPost] as const;
+}
+
+export function useCachedUser(userId: number): CachedUser | null {
+  return useCacheState().users[userId] ?? null;
+}
@@ -0,0 +1,60 @@
+import { idbDelete, idbGet, idbGetAll, idbPut, isIndexedDBAvailable } from '@/lib/idb';
+import { ImageEdits } from '@/lib/imageProcessing';
+
+// Post composer drafts, kept in IndexedDB so the text and the selected images (stored as blobs)
+// survive closing the composer, navigating away and reloading
+
+export interface DraftImage {
+  original: File;
+  // The processed upload, or the original again when processing hadn't finished
+  file: File;
+  edits: ImageEdits;
+  isProcessed: boolean;
+  locationRemoved: boolean;
+}
+
+export interface Draft {
+  id?: number;
+  content: string;
+  images: DraftImage[];
+  // Unix seconds when the composer was set to schedule the post
+  publish_at?: number | null;
+  updated_at: number;
+}
+
+const STORE = 'drafts';
+
+class Drafts {
+  isAvailable(): boolean {
+    return isIndexedDBAvailable();
+  }
+
+  // Most recently edited first
+  async list(): Promise<Draft[]> {
+    const drafts = await idbGetAll<Draft>(STORE);
+    return drafts.sort((a, b) => b.updated_at - a.updated_at);
+  }
+
+  async get(id: number): Promise<Draft | undefined> {
+    return idbGet<Draft>(STORE, id);
+  }
+
+  // Inserts the draft when it has no id yet; returns the id either way
+  async save(draft: Omit<Draft, 'updated_at'>): Promise<number> {
+    const { id, ...rest } = draft;
+    const record: Draft = { ...rest, updated_at: Date.now() };
+    // An explicit undefined id would not be replaced by a generated key
+    if (id !== undefined) {
+      record.id = id;
+    }
+    return idbPut<Draft>(STORE, record);
+  }
+
+  async delete(id: number): Promise<void> {
+    await idbDelete(STORE, id);
+  }
+}
+
+// Create and export a singleton instance
+export const drafts = new Drafts();
+export default drafts;
@@ -0,0 +1,70 @@
+// Minimal promise wrapper around the IndexedDB database used for client-side persistence
+
+const DB_NAME = 'instaapp';
+const DB_VERSION = 2;
+
+// Object stores, all keyed by an auto-incrementing `id`. Bump DB_VERSION when adding one.
+const STORES = ['outbox', 'drafts'] as const;
+
+export type StoreName = typeof STORES[number];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function isIndexedDBAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const store of STORES) {
+          if (!db.objectStoreNames.contains(store)) {
+            db.createObjectStore(store, { keyPath: 'id', autoIncrement: true });
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function getStore(name: StoreName, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const db = await openDatabase();
+  return db.transaction(name, mode).objectStore(name);
+}
+
+// Records come back in key order, i.e. insertion order for auto-incremented keys
+export async function idbGetAll<T>(store: StoreName): Promise<T[]> {
+  return promisify((await getStore(store, 'readonly')).getAll() as IDBRequest<T[]>);
+}
+
+export async function idbGet<T>(store: StoreName, id: number): Promise<T | undefined> {
+  return promisify((await getStore(store, 'readonly')).get(id) as IDBRequest<T | undefined>);
+}
+
+export async function idbAdd<T>(store: StoreName, value: T): Promise<number> {
+  return promisify((await getStore(store, 'readwrite')).add(value)) as Promise<number>;
+}
+
+export async function idbPut<T>(store: StoreName, value: T): Promise<number> {
+  return promisify((await getStore(store, 'readwrite')).put(value)) as Promise<number>;
+}
+
+export async function idbDelete(store: StoreName, id: number): Promise<void> {
+  await promisify((await getStore(store, 'readwrite')).delete(id));
+}
@@ -0,0 +1,157 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, readdir, rename, rm, stat, utimes, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { ImagePlaceholder } from '@/config/api';
+import { IMAGE_PROXY_CONFIG } from '@/config/imageProxy';
+
+// Disk cache for transformed proxy images. Each variant is a data file plus a JSON sidecar with
+// the headers to serve it with; entries are dropped lazily once their expiry has passed, and the
+// least recently used ones are evicted once the cache grows past CACHE_MAX_BYTES.
+
+export interface CachedVariant {
+  data: Buffer;
+  contentType: string;
+  etag: string;
+  cacheControl: string;
+  lastModified?: string;
+  // Epoch ms
+  expiresAt: number;
+}
+
+type VariantMeta = Omit<CachedVariant, 'data'>;
+
+// Size of the cache as of the last scan plus what has been written since; null until the first
+// write scans it. Other processes sharing the directory are only noticed by the next scan.
+let cacheBytes: number | null = null;
+let pruning: Promise<void> | null = null;
+
+export function variantKey(...parts: (string | number | undefined)[]): string {
+  return createHash('sha256').update(parts.map(part => part ?? '').join('\n')).digest('hex');
+}
+
+// Strong validator for a variant's bytes
+export function contentETag(data: Buffer): string {
+  return `"${createHash('sha256').update(data).digest('base64url').slice(0, 27)}"`;
+}
+
+// One placeholder per source image, computed along with its first variant. Kept apart from the
+// variants so the signing endpoint can hand it out before any of them is requested.
+function placeholderKey(url: string): string {
+  return variantKey(url, 'placeholder');
+}
+
+function variantPaths(key: string): { data: string; meta: string } {
+  // Two-level fan-out keeps directories small
+  const dir = path.join(IMAGE_PROXY_CONFIG.CACHE_DIR, key.slice(0, 2));
+  return { data: path.join(dir, `${key}.bin`), meta: path.join(dir, `${key}.json`) };
+}
+
+export async function readVariant(key: string): Promise<CachedVariant | null> {
+  const paths = variantPaths(key);
+  try {
+    const meta = JSON.parse(await readFile(paths.meta, 'utf8')) as VariantMeta;
+    if (meta.expiresAt <= Date.now()) {
+      await Promise.all([rm(paths.meta, { force: true }), rm(paths.data, { force: true })]);
+      return null;
+    }
+    const data = await readFile(paths.data);
+    // The sidecar's mtime records the last use, for eviction
+    const now = new Date();
+    utimes(paths.meta, now, now).catch(() => {});
+    return { ...meta, data };
+  } catch {
+    // Missing or half written: treat as a miss
+    return null;
+  }
+}
+
+export async function writeVariant(key: string, variant: CachedVariant): Promise<void> {
+  const paths = variantPaths(key);
+  const { data, ...meta } = variant;
+  await mkdir(path.dirname(paths.data), { recursive: true });
+
+  // Write then rename, so concurrent readers never see a partial file. The sidecar goes last:
+  // a data file without one is simply not found.
+  const suffix = `.${process.pid}.${Date.now()}.tmp`;
+  await writeFile(paths.data + suffix, data);
+  await rename(paths.data + suffix, paths.data);
+  const json = JSON.stringify(meta);
+  await writeFile(paths.meta + suffix, json);
+  await rename(paths.meta + suffix, paths.meta);
+
+  if (cacheBytes !== null) cacheBytes += data.length + Buffer.byteLength(json);
+  if (cacheBytes === null || cacheBytes > IMAGE_PROXY_CONFIG.CACHE_MAX_BYTES) {
+    pruning ??= pruneCache()
+      .catch(error => console.error('Image proxy cache eviction failed:', error))
+      .finally(() => { pruning = null; });
+  }
+}
+
+export async function readPlaceholder(url: string): Promise<ImagePlaceholder | null> {
+  const entry = await readVariant(placeholderKey(url));
+  if (!entry) return null;
+  try {
+    return JSON.parse(entry.data.toString('utf8')) as ImagePlaceholder;
+  } catch {
+    return null;
+  }
+}
+
+// Lives as long as the variant it was computed with
+export async function writePlaceholder(url: string, placeholder: ImagePlaceholder, expiresAt: number): Promise<void> {
+  const data = Buffer.from(JSON.stringify(placeholder));
+  await writeVariant(placeholderKey(url), {
+    data,
+    contentType: 'application/json',
+    etag: contentETag(data),
+    cacheControl: 'private',
+    expiresAt,
+  });
+}
+
+interface CacheEntry {
+  files: string[];
+  size: number;
+  // Epoch ms
+  lastUsed: number;
+}
+
+// Groups the files on disk by variant key, including leftovers of interrupted writes
+async function scanCache(): Promise<CacheEntry[]> {
+  const entries = new Map<string, CacheEntry>();
+  const dirs = await readdir(IMAGE_PROXY_CONFIG.CACHE_DIR).catch(() => []);
+  for (const dir of dirs) {
+    const names = await readdir(path.join(IMAGE_PROXY_CONFIG.CACHE_DIR, dir)).catch(() => []);
+    for (const name of names) {
+      const file = path.join(IMAGE_PROXY_CONFIG.CACHE_DIR, dir, name);
+      const stats = await stat(file).catch(() => null);
+      if (!stats?.isFile()) continue;
+
+      const key = name.split('.')[0];
+      const entry = entries.get(key) ?? { files: [], size: 0, lastUsed: 0 };
+      entry.files.push(file);
+      entry.size += stats.size;
+      entry.lastUsed = Math.max(entry.lastUsed, stats.mtimeMs);
+      entries.set(key, entry);
+    }
+  }
+  return [...entries.values()];
+}
+
+// Evicts least recently used variants until the cache is back under 90% of its limit, leaving
+// room for a few more writes before the next scan
+async function pruneCache(): Promise<void> {
+  const entries = await scanCache();
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  const target = IMAGE_PROXY_CONFIG.CACHE_MAX_BYTES * 0.9;
+
+  if (total > IMAGE_PROXY_CONFIG.CACHE_MAX_BYTES) {
+    entries.sort((a, b) => a.lastUsed - b.lastUsed);
+    for (const entry of entries) {
+      if (total <= target) break;
+      await Promise.all(entry.files.map(file => rm(file, { force: true })));
+      total -= entry.size;
+    }
+  }
+  cacheBytes = total;
+}
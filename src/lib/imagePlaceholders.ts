@@ -0,0 +1,41 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { decode } from 'blurhash';
+
+// Blurhash placeholders for SafeImage, decoded into small PNG data URLs. The placeholders
+// themselves come with posts from the API, or else with proxy signatures (see lib/proxySigner).
+
+// Decoded size; the browser scales it up, and the blur hides the pixels
+const BLUR_SIZE = 32;
+
+const blurDataURLs = new Map<string, string | null>();
+
+// Decoded once per hash; null for an invalid hash or outside the browser
+function blurhashToDataURL(hash: string): string | null {
+  if (!blurDataURLs.has(hash)) {
+    let dataURL: string | null = null;
+    try {
+      const canvas = document.createElement('canvas');
+      canvas.width = BLUR_SIZE;
+      canvas.height = BLUR_SIZE;
+      const context = canvas.getContext('2d');
+      if (context) {
+        const imageData = context.createImageData(BLUR_SIZE, BLUR_SIZE);
+        imageData.data.set(decode(hash, BLUR_SIZE, BLUR_SIZE));
+        context.putImageData(imageData, 0, 0);
+        dataURL = canvas.toDataURL();
+      }
+    } catch {
+      // Malformed hash: the dominant colour alone will do
+    }
+    blurDataURLs.set(hash, dataURL);
+  }
+  return blurDataURLs.get(hash) ?? null;
+}
+
+const subscribeNever = () => () => {};
+
+// Rendered on the client only, so server HTML never carries a canvas-made image
+export function useBlurDataURL(blurhash?: string): string | null {
+  const getSnapshot = useCallback(() => (blurhash ? blurhashToDataURL(blurhash) : null), [blurhash]);
+  return useSyncExternalStore(subscribeNever, getSnapshot, () => null);
+}
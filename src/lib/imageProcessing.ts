@@ -0,0 +1,218 @@
+import { API_CONFIG } from '@/config/api';
+
+// In-browser image pipeline used before uploading: decode with EXIF orientation applied, rotate,
+// crop, filter, resize and re-encode. Canvas output carries no metadata, so every processed image
+// also loses its EXIF block, GPS coordinates included; baking the orientation into the pixels first
+// keeps photos upright once that metadata is gone.
+
+export type CropAspect = 'original' | 'square' | 'portrait' | 'landscape';
+export type Rotation = 0 | 90 | 180 | 270;
+
+export interface ImageEdits {
+  aspect: CropAspect;
+  rotation: Rotation;
+  filter: string;
+}
+
+export interface ProcessedImage {
+  file: File;
+  // The original carried GPS coordinates, which the re-encode dropped
+  locationRemoved: boolean;
+}
+
+// Thrown when an image stays over the upload limit however much it is compressed
+export class ImageTooLargeError extends Error {
+  constructor(maxBytes: number = API_CONFIG.UPLOAD.MAX_FILE_SIZE) {
+    super(`Image is too large to upload, even after compressing it (limit ${Math.round(maxBytes / (1024 * 1024))} MB)`);
+    this.name = 'ImageTooLargeError';
+  }
+}
+
+export const DEFAULT_EDITS: ImageEdits = { aspect: 'original', rotation: 0, filter: 'normal' };
+
+// Width / height for each crop; 'original' keeps the full frame
+export const CROP_ASPECTS: Record<CropAspect, { label: string; ratio: number | null }> = {
+  original: { label: 'Original', ratio: null },
+  square: { label: 'Square', ratio: 1 },
+  portrait: { label: 'Portrait', ratio: 4 / 5 },
+  landscape: { label: 'Landscape', ratio: 1.91 },
+};
+
+// Instagram-style looks as CSS filter strings, usable both on canvas and for live previews
+export const IMAGE_FILTERS: Record<string, { label: string; css: string }> = {
+  normal: { label: 'Normal', css: 'none' },
+  clarendon: { label: 'Clarendon', css: 'contrast(1.2) saturate(1.35)' },
+  gingham: { label: 'Gingham', css: 'brightness(1.05) hue-rotate(-10deg) sepia(0.04)' },
+  juno: { label: 'Juno', css: 'saturate(1.4) contrast(1.1) sepia(0.15)' },
+  lark: { label: 'Lark', css: 'contrast(0.9) brightness(1.1) saturate(1.1)' },
+  valencia: { label: 'Valencia', css: 'contrast(1.08) brightness(1.08) sepia(0.08)' },
+  moon: { label: 'Moon', css: 'grayscale(1) contrast(1.1) brightness(1.1)' },
+};
+
+const EXIF_GPS_POINTER_TAG = 0x8825;
+// The EXIF block sits in the first APP1 segment, well within this many bytes
+const EXIF_SCAN_BYTES = 128 * 1024;
+const ENCODE_QUALITIES = [0.92, 0.85, 0.75, 0.65, 0.5];
+// Below this width shrinking further is pointless; the best attempt is returned instead, as long
+// as it is within the upload limit
+const MIN_ENCODE_WIDTH = 320;
+
+function isDefaultEdits(edits: ImageEdits): boolean {
+  return edits.aspect === DEFAULT_EDITS.aspect
+    && edits.rotation === DEFAULT_EDITS.rotation
+    && edits.filter === DEFAULT_EDITS.filter;
+}
+
+// Whether a JPEG's EXIF block points to GPS data. Walks the JPEG segments to APP1 and scans IFD0.
+export async function hasGpsMetadata(file: File): Promise<boolean> {
+  if (file.type !== 'image/jpeg') return false;
+
+  const view = new DataView(await file.slice(0, EXIF_SCAN_BYTES).arrayBuffer());
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return false;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    // Start of scan: image data follows, no more metadata
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return false;
+
+    // "Exif\0\0" header, then the TIFF structure
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      if (tiff + 8 > view.byteLength) return false;
+
+      const littleEndian = view.getUint16(tiff) === 0x4949;
+      const ifd0 = tiff + view.getUint32(tiff + 4, littleEndian);
+      if (ifd0 + 2 > view.byteLength) return false;
+
+      const entries = view.getUint16(ifd0, littleEndian);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd0 + 2 + i * 12;
+        if (entry + 2 > view.byteLength) return false;
+        if (view.getUint16(entry, littleEndian) === EXIF_GPS_POINTER_TAG) return true;
+      }
+      return false;
+    }
+
+    offset += 2 + length;
+  }
+  return false;
+}
+
+// Decodes with the EXIF orientation applied, so the bitmap is already upright
+export function decodeImage(file: Blob): Promise<ImageBitmap> {
+  return createImageBitmap(file, { imageOrientation: 'from-image' });
+}
+
+// Draws the source rotated, centre-cropped to the aspect and filtered, scaled to fit maxDimension
+export function renderEdits(
+  source: ImageBitmap,
+  edits: ImageEdits,
+  maxDimension: number = API_CONFIG.UPLOAD.MAX_IMAGE_DIMENSION,
+  canvas: HTMLCanvasElement = document.createElement('canvas')
+): HTMLCanvasElement {
+  const quarterTurn = edits.rotation === 90 || edits.rotation === 270;
+  const rotatedWidth = quarterTurn ? source.height : source.width;
+  const rotatedHeight = quarterTurn ? source.width : source.height;
+
+  let cropWidth = rotatedWidth;
+  let cropHeight = rotatedHeight;
+  const ratio = CROP_ASPECTS[edits.aspect].ratio;
+  if (ratio !== null) {
+    if (rotatedWidth / rotatedHeight > ratio) {
+      cropWidth = rotatedHeight * ratio;
+    } else {
+      cropHeight = rotatedWidth / ratio;
+    }
+  }
+
+  const scale = Math.min(1, maxDimension / Math.max(cropWidth, cropHeight));
+  canvas.width = Math.max(1, Math.round(cropWidth * scale));
+  canvas.height = Math.max(1, Math.round(cropHeight * scale));
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported in this browser');
+
+  // Browsers without canvas filters (older Safari) simply render the unfiltered image
+  ctx.filter = IMAGE_FILTERS[edits.filter]?.css ?? 'none';
+  ctx.imageSmoothingQuality = 'high';
+  // The crop is centred, so drawing the rotated image around the canvas centre crops it too
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.scale(scale, scale);
+  ctx.rotate((edits.rotation * Math.PI) / 180);
+  ctx.drawImage(source, -source.width / 2, -source.height / 2);
+
+  return canvas;
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to encode image')), type, quality);
+  });
+}
+
+function shrink(canvas: HTMLCanvasElement, factor: number): HTMLCanvasElement {
+  const smaller = document.createElement('canvas');
+  smaller.width = Math.round(canvas.width * factor);
+  smaller.height = Math.round(canvas.height * factor);
+  const ctx = smaller.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported in this browser');
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(canvas, 0, 0, smaller.width, smaller.height);
+  return smaller;
+}
+
+// Re-encodes as WebP (JPEG where the browser can't write WebP), lowering quality and then the
+// resolution until the result fits within maxBytes
+export async function encodeUnderSize(
+  canvas: HTMLCanvasElement,
+  maxBytes: number = API_CONFIG.UPLOAD.TARGET_FILE_SIZE
+): Promise<Blob> {
+  // Browsers that can't encode WebP silently fall back to PNG
+  const probe = await canvasToBlob(canvas, 'image/webp', ENCODE_QUALITIES[0]);
+  const type = probe.type === 'image/webp' ? 'image/webp' : 'image/jpeg';
+
+  let current = canvas;
+  let best = type === 'image/webp' ? probe : await canvasToBlob(canvas, type, ENCODE_QUALITIES[0]);
+  for (;;) {
+    for (const quality of ENCODE_QUALITIES) {
+      const blob = current === canvas && quality === ENCODE_QUALITIES[0]
+        ? best
+        : await canvasToBlob(current, type, quality);
+      if (blob.size < best.size) best = blob;
+      if (blob.size <= maxBytes) return blob;
+    }
+    if (current.width * 0.8 < MIN_ENCODE_WIDTH) {
+      if (best.size > API_CONFIG.UPLOAD.MAX_FILE_SIZE) throw new ImageTooLargeError();
+      return best;
+    }
+    current = shrink(current, 0.8);
+  }
+}
+
+function renameForType(name: string, type: string): string {
+  const base = name.replace(/\.[^.]+$/, '') || 'image';
+  return `${base}.${type === 'image/webp' ? 'webp' : 'jpg'}`;
+}
+
+// Full pipeline for one upload. Unedited GIFs within the size limit are kept as they are so
+// animations survive; everything else is re-encoded, which also strips its metadata.
+export async function processImage(file: File, edits: ImageEdits = DEFAULT_EDITS): Promise<ProcessedImage> {
+  const locationRemoved = await hasGpsMetadata(file);
+  const bitmap = await decodeImage(file);
+
+  try {
+    if (file.type === 'image/gif' && isDefaultEdits(edits) && file.size <= API_CONFIG.UPLOAD.MAX_FILE_SIZE) {
+      return { file, locationRemoved: false };
+    }
+
+    const blob = await encodeUnderSize(renderEdits(bitmap, edits));
+    return {
+      file: new File([blob], renameForType(file.name, blob.type), { type: blob.type, lastModified: Date.now() }),
+      locationRemoved,
+    };
+  } finally {
+    bitmap.close();
+  }
+}
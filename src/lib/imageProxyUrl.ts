@@ -0,0 +1,79 @@
+import type { ImagePlaceholder } from '@/config/api';
+
+// Builds /api/image-proxy URLs. Shared by the client (SafeImage) and the route, which parses
+// the same parameters back.
+
+export const IMAGE_PROXY_PATH = '/api/image-proxy';
+// Exchanges source URLs for signatures; the secret itself never leaves the server
+export const IMAGE_PROXY_SIGN_PATH = `${IMAGE_PROXY_PATH}/sign`;
+export const MAX_SIGN_BATCH = 100; // images per signing request
+
+// How the image is fitted into w x h, as in sharp: 'cover' crops to fill the box, 'contain'
+// letterboxes, 'inside' fits within it, 'outside' covers it without cropping and 'fill' stretches
+export const IMAGE_FITS = ['cover', 'contain', 'inside', 'outside', 'fill'] as const;
+export type ImageFit = typeof IMAGE_FITS[number];
+
+// The only widths and heights the proxy renders, and the qualities it encodes at. Requests are
+// snapped to them so each image has a bounded number of variants. next.config.ts hands the same
+// lists to next/image, so its srcset candidates already land on them.
+export const IMAGE_SIZES = [32, 48, 64, 96, 128, 256, 384];
+export const DEVICE_SIZES = [640, 750, 828, 1080, 1200, 1920, 2048, 3840];
+export const PROXY_SIZES = [...IMAGE_SIZES, ...DEVICE_SIZES];
+export const PROXY_QUALITIES = [50, 75, 90];
+
+export interface ImageTransform {
+  w?: number;
+  h?: number;
+  fit?: ImageFit;
+  // 1-100
+  q?: number;
+}
+
+// Smallest allowed size that covers `size`; the largest one past the end of the list
+export function snapSize(size: number): number {
+  return PROXY_SIZES.find(allowed => allowed >= size) ?? PROXY_SIZES[PROXY_SIZES.length - 1];
+}
+
+// Nearest allowed quality, the higher one on a tie
+export function snapQuality(quality: number): number {
+  return PROXY_QUALITIES.reduce((best, level) => Math.abs(level - quality) <= Math.abs(best - quality) ? level : best);
+}
+
+export interface ProxySignature {
+  // Epoch seconds
+  exp: number;
+  // base64url HMAC of the source URL, the normalised transform and exp
+  sig: string;
+}
+
+// A source URL and the transform it will be requested with; each variant has its own signature
+export interface SignableImage extends ImageTransform {
+  url: string;
+}
+
+export interface SignProxyUrlsRequest {
+  images: SignableImage[];
+}
+
+export interface SignProxyUrlsResponse {
+  // In request order; null for images the proxy would refuse anyway
+  signatures: (ProxySignature | null)[];
+  // Also in request order: the source image's placeholder, once the proxy has rendered any
+  // variant of it
+  placeholders: (ImagePlaceholder | null)[];
+}
+
+export function isProxyUrl(src: string): boolean {
+  return src.startsWith(IMAGE_PROXY_PATH);
+}
+
+export function buildProxyUrl(src: string, signature: ProxySignature, transform: ImageTransform = {}): string {
+  const params = new URLSearchParams({ url: src });
+  if (transform.w) params.set('w', String(snapSize(transform.w)));
+  if (transform.h) params.set('h', String(snapSize(transform.h)));
+  if (transform.fit) params.set('fit', transform.fit);
+  if (transform.q) params.set('q', String(snapQuality(transform.q)));
+  params.set('exp', String(signature.exp));
+  params.set('sig', signature.sig);
+  return `${IMAGE_PROXY_PATH}?${params}`;
+}
@@ -0,0 +1,35 @@
+// Identifies images from their leading bytes instead of trusting a Content-Type header.
+// SVG is deliberately not recognised: it is XML that can carry scripts, so it's never passed
+// through as an image.
+
+// Enough to cover every signature below
+export const SNIFF_BYTES = 32;
+
+function startsWith(bytes: Uint8Array, signature: number[], offset: number = 0): boolean {
+  return bytes.length >= offset + signature.length && signature.every((byte, i) => bytes[offset + i] === byte);
+}
+
+function ascii(bytes: Uint8Array, start: number, end: number): string {
+  return String.fromCharCode(...bytes.subarray(start, end));
+}
+
+// ISO base media (AVIF, HEIC): an `ftyp` box whose major brand names the format
+function sniffIsoMedia(bytes: Uint8Array): string | null {
+  if (bytes.length < 12 || ascii(bytes, 4, 8) !== 'ftyp') return null;
+
+  const brand = ascii(bytes, 8, 12);
+  if (brand === 'avif' || brand === 'avis') return 'image/avif';
+  if (['heic', 'heix', 'heim', 'heis', 'mif1'].includes(brand)) return 'image/heic';
+  return null;
+}
+
+// Returns the MIME type of a supported raster image, or null for anything else (HTML, SVG, ...)
+export function sniffImageType(bytes: Uint8Array): string | null {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (ascii(bytes, 0, 6) === 'GIF87a' || ascii(bytes, 0, 6) === 'GIF89a') return 'image/gif';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 12) === 'WEBP') return 'image/webp';
+  if (startsWith(bytes, [0x42, 0x4d])) return 'image/bmp';
+  if (startsWith(bytes, [0x00, 0x00, 0x01, 0x00])) return 'image/x-icon';
+  return sniffIsoMedia(bytes);
+}
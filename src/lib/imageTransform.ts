@@ -0,0 +1,162 @@
+import { encode } from 'blurhash';
+import sharp from 'sharp';
+import type { ImagePlaceholder } from '@/config/api';
+import { IMAGE_PROXY_CONFIG } from '@/config/imageProxy';
+import { IMAGE_FITS, ImageFit, PROXY_SIZES, snapQuality, snapSize } from '@/lib/imageProxyUrl';
+import { ImageProxyError } from '@/lib/ssrf';
+
+// Server-side resizing and re-encoding for /api/image-proxy
+
+export type OutputFormat = 'avif' | 'webp' | 'jpeg' | 'png' | 'gif';
+
+export interface TransformOptions {
+  width?: number;
+  height?: number;
+  fit: ImageFit;
+  quality: number;
+  // Best format the client accepts; 'original' keeps a web-safe version of the source format
+  preferredFormat: 'avif' | 'webp' | 'original';
+}
+
+const CONTENT_TYPES: Record<OutputFormat, string> = {
+  avif: 'image/avif',
+  webp: 'image/webp',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+};
+
+// Decompression bomb guard: reject sources above this many pixels before decoding them
+const MAX_INPUT_PIXELS = 50_000_000;
+
+// Blurhash input size and detail; the hash only keeps a few colour components anyway
+const PLACEHOLDER_SIZE = 32;
+const BLURHASH_COMPONENTS = { x: 4, y: 3 };
+
+const MAX_DIMENSION = PROXY_SIZES[PROXY_SIZES.length - 1];
+
+function parseDimension(value: string | null, name: string): number | undefined {
+  if (value === null) return undefined;
+  const dimension = Number(value);
+  if (!Number.isInteger(dimension) || dimension < 1 || dimension > MAX_DIMENSION) {
+    throw new ImageProxyError(`${name} must be a whole number between 1 and ${MAX_DIMENSION}`, 400);
+  }
+  return snapSize(dimension);
+}
+
+// Reads w, h, fit and q; null when none are given and the original should be passed through.
+// Sizes are rounded up to PROXY_SIZES and quality to the nearest of PROXY_QUALITIES, so arbitrary
+// values can't fill the cache with near-identical variants.
+export function parseTransformParams(searchParams: URLSearchParams, accept: string | null): TransformOptions | null {
+  const width = parseDimension(searchParams.get('w'), 'w');
+  const height = parseDimension(searchParams.get('h'), 'h');
+  const fit = searchParams.get('fit');
+  const quality = searchParams.get('q');
+  if (width === undefined && height === undefined && fit === null && quality === null) return null;
+
+  if (fit !== null && !(IMAGE_FITS as readonly string[]).includes(fit)) {
+    throw new ImageProxyError(`fit must be one of ${IMAGE_FITS.join(', ')}`, 400);
+  }
+  const parsedQuality = quality === null ? IMAGE_PROXY_CONFIG.DEFAULT_QUALITY : Number(quality);
+  if (!Number.isInteger(parsedQuality) || parsedQuality < 1 || parsedQuality > 100) {
+    throw new ImageProxyError('q must be a whole number between 1 and 100', 400);
+  }
+
+  return {
+    width,
+    height,
+    // Only a full box can be cropped to; a single dimension just scales
+    fit: (fit as ImageFit | null) ?? (width && height ? 'cover' : 'inside'),
+    quality: snapQuality(parsedQuality),
+    preferredFormat: negotiateFormat(accept),
+  };
+}
+
+// Picks the smallest format the browser says it can display
+export function negotiateFormat(accept: string | null): TransformOptions['preferredFormat'] {
+  if (accept?.includes('image/avif')) return 'avif';
+  if (accept?.includes('image/webp')) return 'webp';
+  return 'original';
+}
+
+function chooseFormat(sourceType: string, preferred: TransformOptions['preferredFormat']): OutputFormat {
+  // sharp can't write animated AVIF, so animations only get WebP
+  if (sourceType === 'image/gif') return preferred === 'original' ? 'gif' : 'webp';
+  if (preferred !== 'original') return preferred;
+  return sourceType === 'image/png' ? 'png' : 'jpeg';
+}
+
+export async function transformImage(
+  input: Buffer,
+  sourceType: string,
+  options: TransformOptions
+): Promise<{ data: Buffer; contentType: string }> {
+  const format = chooseFormat(sourceType, options.preferredFormat);
+  const animated = sourceType === 'image/gif';
+
+  // rotate() applies the EXIF orientation; metadata is dropped from the output
+  let pipeline = sharp(input, { animated, limitInputPixels: MAX_INPUT_PIXELS }).rotate();
+  if (options.width || options.height) {
+    pipeline = pipeline.resize({
+      width: options.width,
+      height: options.height,
+      fit: options.fit,
+      withoutEnlargement: true,
+    });
+  }
+
+  switch (format) {
+    case 'avif':
+      pipeline = pipeline.avif({ quality: options.quality });
+      break;
+    case 'webp':
+      pipeline = pipeline.webp({ quality: options.quality });
+      break;
+    case 'png':
+      pipeline = pipeline.png();
+      break;
+    case 'gif':
+      pipeline = pipeline.gif();
+      break;
+    default:
+      pipeline = pipeline.jpeg({ quality: options.quality, mozjpeg: true });
+  }
+
+  try {
+    return { data: await pipeline.toBuffer(), contentType: CONTENT_TYPES[format] };
+  } catch {
+    // Truncated or corrupt despite a valid signature, or over the pixel limit
+    throw new ImageProxyError('Image could not be processed', 422);
+  }
+}
+
+function toHex({ r, g, b }: { r: number; g: number; b: number }): string {
+  return `#${[r, g, b].map(channel => channel.toString(16).padStart(2, '0')).join('')}`;
+}
+
+// Dominant colour and blurhash, for showing something while the real image loads
+export async function computePlaceholder(input: Buffer): Promise<ImagePlaceholder> {
+  try {
+    // First frame only; transparency is flattened onto white, as the page background
+    const thumbnail = sharp(input, { limitInputPixels: MAX_INPUT_PIXELS })
+      .rotate()
+      .flatten({ background: '#ffffff' })
+      .resize(PLACEHOLDER_SIZE, PLACEHOLDER_SIZE, { fit: 'inside' });
+
+    const { data, info } = await thumbnail.ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+    // stats() reads its input rather than the pipeline output, so it gets the finished thumbnail
+    const { dominant } = await sharp(data, {
+      raw: { width: info.width, height: info.height, channels: info.channels },
+    }).stats();
+    const blurhash = encode(
+      new Uint8ClampedArray(data.buffer, data.byteOffset, data.length),
+      info.width,
+      info.height,
+      BLURHASH_COMPONENTS.x,
+      BLURHASH_COMPONENTS.y
+    );
+    return { color: toHex(dominant), blurhash };
+  } catch {
+    throw new ImageProxyError('Image could not be processed', 422);
+  }
+}
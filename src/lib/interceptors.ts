@@ -0,0 +1,104 @@
+import { ApiResponse, Post } from '@/config/api';
+
+export interface UploadProgress {
+  loaded: number;
+  // 0 when the size of the body isn't known
+  total: number;
+}
+
+export interface TransportOptions {
+  onUploadProgress?: (progress: UploadProgress) => void;
+}
+
+// Performs the actual HTTP call; swap it out to run the client against a fake backend
+export type Transport = (url: string, init: RequestInit, options?: TransportOptions) => Promise<Response>;
+
+export interface RequestConfig {
+  url: string;
+  init: RequestInit;
+}
+
+export interface ResponseContext {
+  config: RequestConfig;
+  // Null when the request never produced a response (network error, timeout)
+  response: Response | null;
+  error?: unknown;
+}
+
+export type RequestInterceptor = (config: RequestConfig) => RequestConfig | Promise<RequestConfig>;
+
+export type ResponseInterceptor = (
+  result: ApiResponse,
+  context: ResponseContext
+) => ApiResponse | Promise<ApiResponse>;
+
+// Adds the bearer token to every request when one is available
+export function createAuthInterceptor(getToken: () => string | null): RequestInterceptor {
+  return (config) => {
+    const token = getToken();
+    if (!token) return config;
+
+    const headers = new Headers(config.init.headers);
+    headers.set('Authorization', `Bearer ${token}`);
+    return { ...config, init: { ...config.init, headers } };
+  };
+}
+
+// Reports 401 responses as an expired session, except for endpoints where a 401 just means bad credentials
+export function createSessionExpiryInterceptor(onExpired: () => void, ignoredEndpoints: string[] = []): ResponseInterceptor {
+  return (result, { config }) => {
+    if (result.status !== 401) return result;
+
+    const path = config.url.split('?')[0];
+    if (!ignoredEndpoints.some(endpoint => path.endsWith(endpoint))) {
+      onExpired();
+    }
+    return result;
+  };
+}
+
+// Fills in a human readable message for failed requests
+export const normalizeErrorInterceptor: ResponseInterceptor = (result, { error }) => {
+  if (result.success || result.message) return result;
+
+  if (error instanceof Error) {
+    if (error.name === 'AbortError') {
+      return { ...result, message: 'Request timeout. Please try again.' };
+    }
+    return { ...result, message: error.message || 'Network error occurred' };
+  }
+  if (error !== undefined) {
+    return { ...result, message: 'An unexpected error occurred' };
+  }
+  return { ...result, message: 'An error occurred' };
+};
+
+// Posts made before carousels only have image_url; this gives every post its images list
+export function normalizePost(post: Post): Post {
+  if (post.images?.length) return post;
+  return { ...post, images: post.image_url ? [post.image_url] : [] };
+}
+
+// Applies normalizePost to the `post` or `posts` of a response, so Post.images always holds
+export const normalizePostsInterceptor: ResponseInterceptor = (result) => {
+  const data = result.data as { post?: Post; posts?: Post[] } | undefined;
+  if (!result.success || !data || typeof data !== 'object') return result;
+
+  if (Array.isArray(data.posts)) {
+    return { ...result, data: { ...data, posts: data.posts.map(normalizePost) } };
+  }
+  if (data.post) {
+    return { ...result, data: { ...data, post: normalizePost(data.post) } };
+  }
+  return result;
+};
+
+export const loggingRequestInterceptor: RequestInterceptor = (config) => {
+  console.log(`[api] ${config.init.method || 'GET'} ${config.url}`);
+  return config;
+};
+
+export const loggingResponseInterceptor: ResponseInterceptor = (result, { config }) => {
+  console.log(`[api] ${config.init.method || 'GET'} ${config.url} -> ${result.status ?? 'no response'}`, result);
+  return result;
+};
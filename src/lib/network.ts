@@ -0,0 +1,40 @@
+// Connectivity helpers shared by the API client and anything that needs to wait for the network
+
+export function isOnline(): boolean {
+  // Assume online during SSR and in environments without navigator.onLine
+  if (typeof navigator === 'undefined' || typeof navigator.onLine !== 'boolean') {
+    return true;
+  }
+  return navigator.onLine;
+}
+
+// Resolves immediately when online, otherwise once the browser reports connectivity again
+// (or the signal aborts, so a cancelled request doesn't wait forever)
+export function waitForOnline(signal?: AbortSignal): Promise<void> {
+  if (isOnline() || typeof window === 'undefined' || signal?.aborted) {
+    return Promise.resolve();
+  }
+  return new Promise(resolve => {
+    const done = () => {
+      window.removeEventListener('online', done);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    window.addEventListener('online', done);
+    signal?.addEventListener('abort', done);
+  });
+}
+
+// Resolves after `ms`, or as soon as the signal aborts so cancelled work stops waiting to retry
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) return Promise.resolve();
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done);
+  });
+}
@@ -0,0 +1,67 @@
+import { NotificationType, UserNotification } from '@/config/api';
+
+// Several notifications about the same post collapsed into one line, e.g. "Alice and 3 others liked your post"
+export interface NotificationGroup {
+  key: string;
+  type: NotificationType;
+  post_id: number;
+  // Most recent first, without duplicates
+  actors: { id: number; name: string }[];
+  notification_ids: number[];
+  is_unread: boolean;
+  latest_at: number;
+}
+
+// Likes and comments are grouped per post; mentions stay separate since each points to its own comment
+export function groupNotifications(notifications: UserNotification[]): NotificationGroup[] {
+  const groups = new Map<string, NotificationGroup>();
+  const sorted = [...notifications].sort((a, b) => b.created_at - a.created_at);
+
+  for (const notification of sorted) {
+    const key = notification.type === 'mention'
+      ? `mention:${notification.id}`
+      : `${notification.type}:${notification.post_id}`;
+
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        key,
+        type: notification.type,
+        post_id: notification.post_id,
+        actors: [],
+        notification_ids: [],
+        is_unread: false,
+        latest_at: notification.created_at,
+      };
+      groups.set(key, group);
+    }
+
+    group.notification_ids.push(notification.id);
+    group.is_unread = group.is_unread || notification.read_at === null;
+    if (!group.actors.some(actor => actor.id === notification.actor.id)) {
+      group.actors.push(notification.actor);
+    }
+  }
+
+  // Map preserves insertion order, which follows the newest notification of each group
+  return Array.from(groups.values());
+}
+
+const ACTIONS: Record<NotificationType, string> = {
+  like: 'liked your post',
+  comment: 'commented on your post',
+  mention: 'mentioned you in a comment',
+};
+
+export function describeNotificationGroup(group: NotificationGroup): string {
+  const [first, second] = group.actors;
+  const others = group.actors.length - 1;
+
+  let who = first?.name ?? 'Someone';
+  if (others === 1) {
+    who = `${first.name} and ${second.name}`;
+  } else if (others > 1) {
+    who = `${first.name} and ${others} others`;
+  }
+  return `${who} ${ACTIONS[group.type]}`;
+}
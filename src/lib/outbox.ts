@@ -0,0 +1,189 @@
+import { ApiResponse, Comment } from '@/config/api';
+import { apiClient } from '@/lib/api';
+import { idbAdd, idbDelete, idbGet, idbGetAll, idbPut, isIndexedDBAvailable } from '@/lib/idb';
+import { isOnline } from '@/lib/network';
+
+// Mutations that can be made while offline and replayed once the connection is back
+export type OutboxAction =
+  | { type: 'like'; post_id: number }
+  | { type: 'unlike'; post_id: number }
+  | { type: 'comment'; post_id: number; content: string; temp_id: number };
+
+export type OutboxEntry = OutboxAction & {
+  id?: number;
+  queued_at: number;
+  // Sent with every replay, so the server applies the change only once
+  idempotency_key?: string;
+  // The first request may have reached the server (it timed out rather than failing offline)
+  attempted?: boolean;
+};
+
+export interface EnqueueOptions {
+  // The key the original request was sent with, if there was one
+  idempotencyKey?: string;
+  attempted?: boolean;
+}
+
+export type OutboxEvent =
+  | { type: 'synced'; entry: OutboxEntry; comment?: Comment }
+  | { type: 'failed'; entry: OutboxEntry; message: string };
+
+type OutboxListener = (event: OutboxEvent) => void;
+
+const STORE = 'outbox';
+// Wait before replaying again after a server error, timeout or expired session
+const RETRY_DELAY = 30 * 1000;
+
+export function createIdempotencyKey(): string {
+  // randomUUID needs a secure context; plain-http hosts other than localhost fall back to this
+  return typeof crypto !== 'undefined' && crypto.randomUUID
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}${Math.random().toString(36).slice(2)}`;
+}
+
+// Failures that may succeed later: offline or timed out (0), signed out, rate limited or a server
+// error. Any other 4xx means the server rejected the change itself.
+function isTransientFailure(status: number = 0): boolean {
+  return status === 0 || status === 401 || status === 408 || status === 429 || status >= 500;
+}
+
+class Outbox {
+  private listeners = new Set<OutboxListener>();
+  private flushing: Promise<void> | null = null;
+  private running = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  isAvailable(): boolean {
+    return isIndexedDBAvailable();
+  }
+
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async enqueue(action: OutboxAction, { idempotencyKey, attempted = false }: EnqueueOptions = {}): Promise<void> {
+    // A like followed by an unlike of the same post (or vice versa) cancels out, unless the first
+    // one may already have been applied
+    if (action.type === 'like' || action.type === 'unlike') {
+      const entries = await idbGetAll<OutboxEntry>(STORE);
+      const previous = entries.reverse().find(e =>
+        (e.type === 'like' || e.type === 'unlike') && e.post_id === action.post_id
+      );
+      if (previous && previous.type !== action.type && !previous.attempted) {
+        await idbDelete(STORE, previous.id!);
+        return;
+      }
+    }
+
+    await idbAdd<OutboxEntry>(STORE, {
+      ...action,
+      queued_at: Date.now(),
+      idempotency_key: idempotencyKey ?? createIdempotencyKey(),
+      attempted,
+    });
+  }
+
+  async getPending(): Promise<OutboxEntry[]> {
+    return idbGetAll<OutboxEntry>(STORE);
+  }
+
+  // Replays the queue now and whenever the browser comes back online; returns a cleanup function
+  start(): () => void {
+    const handleOnline = () => {
+      this.flush();
+    };
+
+    this.running = true;
+    window.addEventListener('online', handleOnline);
+    this.flush();
+    return () => {
+      this.running = false;
+      this.clearRetry();
+      window.removeEventListener('online', handleOnline);
+    };
+  }
+
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.drain().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  private async drain(): Promise<void> {
+    if (!this.isAvailable() || !isOnline()) return;
+
+    // Entries are replayed strictly in the order they were queued
+    const entries = await idbGetAll<OutboxEntry>(STORE);
+    for (const queued of entries) {
+      // A like or unlike may have been cancelled out since the snapshot was taken
+      const entry = await idbGet<OutboxEntry>(STORE, queued.id!);
+      if (!entry) continue;
+
+      // Recorded before sending, so an opposite tap while this is in flight queues a request of
+      // its own instead of cancelling one the server may already have applied
+      if (!entry.attempted) {
+        entry.attempted = true;
+        await idbPut(STORE, entry);
+      }
+      const response = await this.send(entry);
+
+      // Keep this and the remaining entries, in order, for the next attempt
+      if (!response.success && isTransientFailure(response.status)) {
+        this.scheduleRetry();
+        return;
+      }
+
+      await idbDelete(STORE, entry.id!);
+      if (response.success) {
+        const comment = entry.type === 'comment'
+          ? (response.data as { comment: Comment } | undefined)?.comment
+          : undefined;
+        this.emit({ type: 'synced', entry, comment });
+      } else {
+        this.emit({ type: 'failed', entry, message: response.message || 'Failed to sync offline change' });
+      }
+    }
+  }
+
+  // Going back online flushes as well; this covers failures while the connection stays up
+  private scheduleRetry(): void {
+    if (!this.running || this.retryTimer) return;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, RETRY_DELAY);
+  }
+
+  private clearRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private send(entry: OutboxEntry): Promise<ApiResponse> {
+    const options = { idempotencyKey: entry.idempotency_key };
+    switch (entry.type) {
+      case 'like':
+        return apiClient.likePost(entry.post_id, options);
+      case 'unlike':
+        return apiClient.unlikePost(entry.post_id, options);
+      case 'comment':
+        return apiClient.createComment({ post_id: entry.post_id, content: entry.content }, options);
+    }
+  }
+
+  private emit(event: OutboxEvent): void {
+    this.listeners.forEach(listener => listener(event));
+  }
+}
+
+// Create and export a singleton instance
+export const outbox = new Outbox();
+export default outbox;
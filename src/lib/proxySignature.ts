@@ -0,0 +1,52 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { IMAGE_PROXY_CONFIG } from '@/config/imageProxy';
+import type { ProxySignature } from '@/lib/imageProxyUrl';
+import type { TransformOptions } from '@/lib/imageTransform';
+import { ImageProxyError } from '@/lib/ssrf';
+
+// HMAC signatures for /api/image-proxy URLs, so the proxy only fetches images this app asked for.
+//
+// A signature covers the source URL, the transform as parseTransformParams normalises it (w, h,
+// fit and q, or none for the original) and its expiry, so a signed URL only ever yields the one
+// variant it was signed for. The output format is left out; it follows the browser's Accept
+// header. Expiries are rounded up to the next SIGNATURE_TTL window, so everyone gets the same URL
+// for an image within a window and browser and CDN caches keep working. A URL is valid for
+// between one and two windows.
+
+export type SignatureCheck = 'valid' | 'expired' | 'invalid';
+
+function secret(): string {
+  if (!IMAGE_PROXY_CONFIG.SIGNING_SECRET) {
+    throw new ImageProxyError('Image proxy signing is not configured', 500);
+  }
+  return IMAGE_PROXY_CONFIG.SIGNING_SECRET;
+}
+
+function hmac(url: string, transform: TransformOptions | null, expires: number): Buffer {
+  const variant = transform
+    ? `w=${transform.width ?? ''}&h=${transform.height ?? ''}&fit=${transform.fit}&q=${transform.quality}`
+    : 'original';
+  return createHmac('sha256', secret()).update(`${url}\n${variant}\n${expires}`).digest();
+}
+
+export function signProxyUrl(url: string, transform: TransformOptions | null, now: number = Date.now()): ProxySignature {
+  const ttl = IMAGE_PROXY_CONFIG.SIGNATURE_TTL;
+  const expires = (Math.ceil(now / 1000 / ttl) + 1) * ttl;
+  return { exp: expires, sig: hmac(url, transform, expires).toString('base64url') };
+}
+
+export function verifyProxySignature(
+  url: string,
+  transform: TransformOptions | null,
+  exp: string | null,
+  sig: string | null,
+  now: number = Date.now()
+): SignatureCheck {
+  if (!exp || !sig || !/^\d+$/.test(exp)) return 'invalid';
+
+  const expected = hmac(url, transform, Number(exp));
+  const given = Buffer.from(sig, 'base64url');
+  // Checked before the expiry, so a tampered URL never learns more than "invalid"
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return 'invalid';
+  return Number(exp) * 1000 > now ? 'valid' : 'expired';
+}
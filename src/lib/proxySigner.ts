@@ -0,0 +1,147 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import type { ImagePlaceholder } from '@/config/api';
+import {
+  IMAGE_PROXY_SIGN_PATH,
+  ImageTransform,
+  MAX_SIGN_BATCH,
+  ProxySignature,
+  SignableImage,
+  SignProxyUrlsResponse,
+} from '@/lib/imageProxyUrl';
+
+// Client side of signed proxy URLs: collects the image variants rendered in the same tick, signs
+// them in one request and keeps the signatures until shortly before they expire. A signature
+// covers the transform too, so each size of an image is signed separately. Placeholders the
+// proxy has computed arrive with the signatures and are kept per source URL for the session.
+
+// Re-sign this long before expiry, so a freshly built URL never expires in flight
+const REFRESH_MARGIN = 60 * 1000;
+// After a failed signing request, wait this long before trying the same URL again
+const RETRY_DELAY = 30 * 1000;
+
+interface SignatureEntry {
+  // null when the image can't be proxied, or signing failed
+  signature: ProxySignature | null;
+  // Epoch ms after which the entry is requested again
+  refreshAt: number;
+}
+
+function signingKey(image: SignableImage): string {
+  return [image.url, image.w, image.h, image.fit, image.q].join('\n');
+}
+
+class ProxySigner {
+  // All keyed by signingKey
+  private entries = new Map<string, SignatureEntry>();
+  private queued = new Map<string, SignableImage>();
+  private inFlight = new Set<string>();
+  // Keyed by source URL
+  private placeholders = new Map<string, ImagePlaceholder>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<() => void>();
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  // undefined until the image has been signed once
+  get(image: SignableImage): ProxySignature | null | undefined {
+    return this.entries.get(signingKey(image))?.signature;
+  }
+
+  getPlaceholder(url: string): ImagePlaceholder | null {
+    return this.placeholders.get(url) ?? null;
+  }
+
+  request(image: SignableImage): void {
+    const key = signingKey(image);
+    const entry = this.entries.get(key);
+    if (entry && entry.refreshAt > Date.now()) return;
+    if (this.queued.has(key) || this.inFlight.has(key)) return;
+
+    this.queued.set(key, image);
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        this.flush();
+      }, 0);
+    }
+  }
+
+  private flush(): void {
+    const images = [...this.queued.values()];
+    this.queued.clear();
+    for (let i = 0; i < images.length; i += MAX_SIGN_BATCH) {
+      this.signBatch(images.slice(i, i + MAX_SIGN_BATCH));
+    }
+  }
+
+  private async signBatch(images: SignableImage[]): Promise<void> {
+    const keys = images.map(signingKey);
+    keys.forEach(key => this.inFlight.add(key));
+    try {
+      const response = await fetch(IMAGE_PROXY_SIGN_PATH, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ images }),
+        credentials: 'same-origin',
+      });
+      if (!response.ok) throw new Error(`Signing failed with status ${response.status}`);
+
+      const { signatures, placeholders }: SignProxyUrlsResponse = await response.json();
+      images.forEach((image, index) => {
+        const placeholder = placeholders?.[index];
+        if (placeholder) this.placeholders.set(image.url, placeholder);
+      });
+      keys.forEach((key, index) => {
+        const signature = signatures[index] ?? null;
+        this.entries.set(key, {
+          signature,
+          // Refused URLs stay refused; there's no point asking again
+          refreshAt: signature ? signature.exp * 1000 - REFRESH_MARGIN : Infinity,
+        });
+      });
+    } catch (error) {
+      console.error('Failed to sign image URLs:', error);
+      // Keep a signature that is still valid; otherwise the image falls back
+      keys.forEach(key => {
+        const previous = this.entries.get(key)?.signature ?? null;
+        const usable = previous && previous.exp * 1000 > Date.now() ? previous : null;
+        this.entries.set(key, { signature: usable, refreshAt: Date.now() + RETRY_DELAY });
+      });
+    } finally {
+      keys.forEach(key => this.inFlight.delete(key));
+      this.listeners.forEach(listener => listener());
+    }
+  }
+}
+
+// Create and export a singleton instance
+export const proxySigner = new ProxySigner();
+
+// Signature for proxying `url` with `transform`: undefined while it is being signed, null when
+// it can't be
+export function useProxySignature(url: string | null, transform: ImageTransform = {}): ProxySignature | null | undefined {
+  const { w, h, fit, q } = transform;
+
+  useEffect(() => {
+    if (url) proxySigner.request({ url, w, h, fit, q });
+  }, [url, w, h, fit, q]);
+
+  const getSnapshot = useCallback(
+    () => (url ? proxySigner.get({ url, w, h, fit, q }) : undefined),
+    [url, w, h, fit, q]
+  );
+  return useSyncExternalStore(proxySigner.subscribe, getSnapshot, () => undefined);
+}
+
+// Placeholder the proxy computed for `url`, once a signing response has brought one
+export function useProxyPlaceholder(url: string | null): ImagePlaceholder | null {
+  const getSnapshot = useCallback(() => (url ? proxySigner.getPlaceholder(url) : null), [url]);
+  return useSyncExternalStore(proxySigner.subscribe, getSnapshot, () => null);
+}
+
+export default proxySigner;
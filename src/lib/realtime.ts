@@ -0,0 +1,163 @@
+import { API_CONFIG, RealtimeEvent, RealtimeTransport } from '@/config/api';
+import { apiClient } from '@/lib/api';
+import { cache, cacheKeys } from '@/lib/cache';
+import { normalizePost } from '@/lib/interceptors';
+
+type RealtimeListener = (event: RealtimeEvent) => void;
+
+interface Connection {
+  close: () => void;
+}
+
+// Live feed events over Server-Sent Events or a WebSocket. The connection is opened for the first
+// subscriber, closed after the last one leaves and re-established with backoff when it drops.
+class RealtimeClient {
+  private listeners = new Set<RealtimeListener>();
+  private connection: Connection | null = null;
+  private connecting = false;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectDelay: number = API_CONFIG.REALTIME.RECONNECT_DELAY;
+
+  constructor(
+    private transport: RealtimeTransport = API_CONFIG.REALTIME.TRANSPORT,
+    private url: string = API_CONFIG.REALTIME.URL
+  ) {}
+
+  subscribe(listener: RealtimeListener): () => void {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) {
+      this.connect();
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.disconnect();
+      }
+    };
+  }
+
+  private async connect(): Promise<void> {
+    if (typeof window === 'undefined' || this.transport === 'none' || this.connection || this.connecting) return;
+
+    this.connecting = true;
+    try {
+      // Neither EventSource nor WebSocket can send headers. Instead of the long-lived token, which
+      // would end up in access logs, the URL carries a short-lived single-use ticket.
+      const url = new URL(this.url, window.location.origin);
+      if (apiClient.getToken()) {
+        const response = await apiClient.getRealtimeTicket();
+        if (response.success && response.data) {
+          url.searchParams.set('ticket', response.data.ticket);
+        } else if (response.status !== 404) {
+          this.handleDisconnect();
+          return;
+        }
+        // No ticket endpoint: the stream takes no credentials, like the local mock
+      }
+      // Everyone may have unsubscribed while the ticket was on its way
+      if (this.listeners.size === 0) return;
+
+      this.connection = this.transport === 'websocket'
+        ? this.openWebSocket(url)
+        : this.openEventSource(url);
+    } finally {
+      this.connecting = false;
+    }
+  }
+
+  private openEventSource(url: URL): Connection {
+    const source = new EventSource(url.toString());
+    source.onopen = () => this.handleOpen();
+    source.onmessage = (e) => this.handleMessage(e.data);
+    source.onerror = () => {
+      // Take over reconnection from EventSource so both transports back off the same way
+      source.close();
+      this.handleDisconnect();
+    };
+    return { close: () => source.close() };
+  }
+
+  private openWebSocket(url: URL): Connection {
+    url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+    const socket = new WebSocket(url.toString());
+    socket.onopen = () => this.handleOpen();
+    socket.onmessage = (e) => this.handleMessage(e.data);
+    socket.onclose = () => this.handleDisconnect();
+    return {
+      close: () => {
+        socket.onclose = null;
+        socket.close();
+      },
+    };
+  }
+
+  private handleOpen(): void {
+    this.reconnectDelay = API_CONFIG.REALTIME.RECONNECT_DELAY;
+  }
+
+  private handleMessage(data: unknown): void {
+    if (typeof data !== 'string') return;
+
+    let event: RealtimeEvent;
+    try {
+      event = JSON.parse(data);
+    } catch {
+      console.error('Invalid realtime message:', data);
+      return;
+    }
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  private handleDisconnect(): void {
+    this.connection = null;
+    if (this.listeners.size === 0 || this.reconnectTimer) return;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, this.reconnectDelay);
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, API_CONFIG.REALTIME.MAX_RECONNECT_DELAY);
+  }
+
+  private disconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.connection?.close();
+    this.connection = null;
+  }
+}
+
+// Applies like counts and new comments to cached posts so every page showing them updates.
+// The current user's own comments are skipped since they were already added optimistically.
+export function applyRealtimeEventToCache(event: RealtimeEvent, currentUserId?: number): void {
+  switch (event.type) {
+    case 'post.liked':
+      cache.updatePost(event.post_id, post => ({ ...post, likes_count: event.likes_count }));
+      break;
+    case 'comment.created': {
+      const { comment } = event;
+      if (comment.user_id === currentUserId) return;
+
+      cache.updatePost(comment.post_id, post => post.comments.some(c => c.id === comment.id)
+        ? post
+        : { ...post, comments: [...post.comments, comment], comments_count: post.comments_count + 1 }
+      );
+      cache.invalidate(cacheKeys.postComments(comment.post_id));
+      break;
+    }
+    case 'post.created':
+      // New posts are not spliced into lists automatically; pages decide how to surface them
+      cache.writePosts([normalizePost(event.post)]);
+      break;
+    case 'notification.created':
+      // Not cached; the notification bell and page listen for it directly
+      break;
+  }
+}
+
+// Create and export a singleton instance
+export const realtime = new RealtimeClient();
+export default realtime;
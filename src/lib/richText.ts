@@ -0,0 +1,76 @@
+// Turns plain post and comment text into tokens for #hashtags, @mentions and links. The output is
+// rendered as React elements (see components/RichText), never as HTML, so user content can't inject markup.
+
+export type RichTextToken =
+  | { type: 'text'; text: string }
+  | { type: 'hashtag'; text: string; tag: string }
+  | { type: 'mention'; text: string; name: string }
+  | { type: 'url'; text: string; href: string };
+
+// Alternatives: a URL, then a hashtag or mention with the character before it captured so that
+// e-mail addresses ("a@b.com") and URL fragments ("page#top") aren't picked up
+const TOKEN_PATTERN = /(https?:\/\/[^\s<>"]+|www\.[^\s<>"]+)|(^|[^\w&/#])#(\w+)|(^|[^\w.@/])@(\w(?:[\w.]*\w)?)/g;
+
+// Sentence punctuation right after a link is almost never part of it
+const URL_TRAILING_PUNCTUATION = /[.,!?;:'")\]]+$/;
+
+// Mentions are the author's name without whitespace, e.g. "Budi Santoso" becomes @BudiSantoso
+export function toMentionHandle(name: string): string {
+  return name.replace(/\s+/g, '');
+}
+
+// Only http(s) links are ever linked; anything else stays plain text
+function toSafeHref(raw: string): string | null {
+  try {
+    const url = new URL(raw.startsWith('www.') ? `https://${raw}` : raw);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+export function parseRichText(content: string): RichTextToken[] {
+  const tokens: RichTextToken[] = [];
+  let textStart = 0;
+
+  const pushText = (end: number) => {
+    if (end > textStart) {
+      tokens.push({ type: 'text', text: content.slice(textStart, end) });
+    }
+  };
+
+  for (const match of content.matchAll(TOKEN_PATTERN)) {
+    const [, url, tagPrefix, tag, mentionPrefix, name] = match;
+    let start = match.index ?? 0;
+
+    if (url) {
+      const trimmed = url.replace(URL_TRAILING_PUNCTUATION, '');
+      const href = toSafeHref(trimmed);
+      if (!href) continue;
+
+      pushText(start);
+      tokens.push({ type: 'url', text: trimmed, href });
+      textStart = start + trimmed.length;
+    } else if (tag) {
+      start += tagPrefix.length;
+      pushText(start);
+      tokens.push({ type: 'hashtag', text: `#${tag}`, tag: tag.toLowerCase() });
+      textStart = start + tag.length + 1;
+    } else if (name) {
+      start += mentionPrefix.length;
+      pushText(start);
+      tokens.push({ type: 'mention', text: `@${name}`, name });
+      textStart = start + name.length + 1;
+    }
+  }
+
+  pushText(content.length);
+  return tokens;
+}
+
+// The partial mention being typed right before the caret, e.g. "@bu" in "thanks @bu|"
+export function findMentionQuery(value: string, caret: number): { start: number; query: string } | null {
+  const match = /(^|\s)@(\w[\w.]*)?$/.exec(value.slice(0, caret));
+  if (!match) return null;
+  return { start: match.index + match[1].length, query: match[2] ?? '' };
+}
@@ -0,0 +1,63 @@
+// Scheduling helpers. The API stores publish times as unix seconds (UTC), like every other
+// timestamp; the composer and the Scheduled page show and accept them in the browser's own
+// timezone, which is always named next to the time so there's no guessing which clock is meant.
+
+// Too close to now and the post would be published before the request even lands
+export const MIN_SCHEDULE_LEAD_MINUTES = 5;
+export const MAX_SCHEDULE_LEAD_DAYS = 90;
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+// IANA name plus the current offset, e.g. "Asia/Jakarta (GMT+7)"
+export function getTimeZoneLabel(date: Date = new Date()): string {
+  const zone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const offset = new Intl.DateTimeFormat('en-US', { timeZoneName: 'shortOffset' })
+    .formatToParts(date)
+    .find(part => part.type === 'timeZoneName')?.value;
+  return offset ? `${zone} (${offset})` : zone;
+}
+
+// Absolute local date and time with the zone abbreviation, for labels and tooltips
+export function formatLocalDateTime(unixSeconds: number): string {
+  return new Date(unixSeconds * 1000).toLocaleString(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+    timeZoneName: 'short',
+  });
+}
+
+// Value for <input type="datetime-local">, which works in local time without an offset
+export function toDateTimeLocalValue(unixSeconds: number): string {
+  const date = new Date(unixSeconds * 1000);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+// Reads a datetime-local value as local time; null when empty or invalid
+export function fromDateTimeLocalValue(value: string): number | null {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? null : Math.floor(time / 1000);
+}
+
+export function getScheduleBounds(now: number = Date.now()): { min: number; max: number } {
+  return {
+    min: Math.ceil(now / 1000) + MIN_SCHEDULE_LEAD_MINUTES * 60,
+    max: Math.floor(now / 1000) + MAX_SCHEDULE_LEAD_DAYS * 24 * 60 * 60,
+  };
+}
+
+// Error message for a publish time outside the allowed window, or null when it's fine
+export function validatePublishAt(publishAt: number | null, now: number = Date.now()): string | null {
+  if (publishAt === null) return 'Please pick a date and time to publish';
+
+  const { min, max } = getScheduleBounds(now);
+  if (publishAt < min) {
+    return `Scheduled posts must be at least ${MIN_SCHEDULE_LEAD_MINUTES} minutes in the future`;
+  }
+  if (publishAt > max) {
+    return `Posts can be scheduled up to ${MAX_SCHEDULE_LEAD_DAYS} days ahead`;
+  }
+  return null;
+}
@@ -0,0 +1,219 @@
+import dns from 'node:dns';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { IMAGE_PROXY_CONFIG } from '@/config/imageProxy';
+import { ImageProxyError, fetchPublicUrl, isBlockedAddress, isHostAllowed } from '@/lib/ssrf';
+
+// Stands in for an internal service; every request that reaches it is counted
+interface TestServer {
+  port: number;
+  hits: number;
+  close: () => Promise<void>;
+}
+
+function startServer(handler: http.RequestListener = (_, response) => response.end('secret')): Promise<TestServer> {
+  return new Promise(resolve => {
+    const state = { hits: 0 };
+    const server = http.createServer((request, response) => {
+      state.hits++;
+      handler(request, response);
+    });
+    server.listen(0, '127.0.0.1', () => {
+      resolve({
+        port: (server.address() as AddressInfo).port,
+        get hits() {
+          return state.hits;
+        },
+        close: () => new Promise(done => server.close(() => done())),
+      });
+    });
+  });
+}
+
+async function expectRefused(url: string): Promise<ImageProxyError> {
+  const error = await fetchPublicUrl(url).catch((caught: unknown) => caught);
+  expect(error).toBeInstanceOf(ImageProxyError);
+  expect((error as ImageProxyError).status).toBe(403);
+  return error as ImageProxyError;
+}
+
+describe('isBlockedAddress', () => {
+  it.each([
+    '127.0.0.1',
+    '127.1.2.3',
+    '169.254.169.254',
+    '10.0.0.1',
+    '172.16.5.4',
+    '172.31.255.255',
+    '192.168.1.1',
+    '0.0.0.0',
+    '::1',
+    '::',
+    '::ffff:127.0.0.1',
+    '::ffff:7f00:1',
+    '::ffff:169.254.169.254',
+    '::ffff:10.0.0.1',
+    '::127.0.0.1',
+    '::7f00:1',
+    'fd00::1',
+    'fe80::1',
+  ])('blocks %s', (address) => {
+    expect(isBlockedAddress(address)).toBe(true);
+  });
+
+  it.each(['93.184.216.34', '8.8.8.8', '172.32.0.1', '2606:4700:4700::1111'])('allows %s', (address) => {
+    expect(isBlockedAddress(address)).toBe(false);
+  });
+
+  it('blocks anything that is not an IP address', () => {
+    expect(isBlockedAddress('localhost')).toBe(true);
+  });
+});
+
+describe('isHostAllowed', () => {
+  it('allows any host when the list is empty', () => {
+    expect(isHostAllowed('anything.example', [])).toBe(true);
+  });
+
+  it('matches exact hosts only', () => {
+    expect(isHostAllowed('images.example.com', ['images.example.com'])).toBe(true);
+    expect(isHostAllowed('cdn.images.example.com', ['images.example.com'])).toBe(false);
+    expect(isHostAllowed('example.com', ['images.example.com'])).toBe(false);
+  });
+
+  it('matches the apex and any subdomain for *.domain', () => {
+    expect(isHostAllowed('example.com', ['*.example.com'])).toBe(true);
+    expect(isHostAllowed('cdn.example.com', ['*.example.com'])).toBe(true);
+    expect(isHostAllowed('a.b.example.com', ['*.example.com'])).toBe(true);
+  });
+
+  it.each(['evil-example.com', 'notexample.com', 'example.com.evil.net', 'example.co'])(
+    'rejects the lookalike %s',
+    (host) => {
+      expect(isHostAllowed(host, ['*.example.com', 'example.com'])).toBe(false);
+    }
+  );
+
+  it('ignores case and a trailing dot', () => {
+    expect(isHostAllowed('CDN.Example.COM', ['*.example.com'])).toBe(true);
+    expect(isHostAllowed('Images.Example.com.', ['images.example.com'])).toBe(true);
+  });
+});
+
+describe('fetchPublicUrl', () => {
+  let internal: TestServer;
+
+  beforeEach(async () => {
+    internal = await startServer();
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await internal.close();
+  });
+
+  it('refuses loopback addresses without connecting', async () => {
+    await expectRefused(`http://127.0.0.1:${internal.port}/`);
+    await expectRefused(`http://[::1]:${internal.port}/`);
+    expect(internal.hits).toBe(0);
+  });
+
+  it('refuses hostnames that resolve to loopback', async () => {
+    await expectRefused(`http://localhost:${internal.port}/`);
+    expect(internal.hits).toBe(0);
+  });
+
+  it('refuses the cloud metadata address', async () => {
+    await expectRefused('http://169.254.169.254/latest/meta-data/');
+  });
+
+  it.each(['10.0.0.1', '172.16.5.4', '192.168.1.1'])('refuses the RFC 1918 address %s', async (address) => {
+    await expectRefused(`http://${address}/`);
+  });
+
+  it('refuses IPv4-mapped and IPv4-compatible IPv6 loopback', async () => {
+    await expectRefused(`http://[::ffff:127.0.0.1]:${internal.port}/`);
+    await expectRefused(`http://[::127.0.0.1]:${internal.port}/`);
+    expect(internal.hits).toBe(0);
+  });
+
+  it('refuses hosts outside the allowlist before resolving them', async () => {
+    const allowedHosts = IMAGE_PROXY_CONFIG.ALLOWED_HOSTS;
+    IMAGE_PROXY_CONFIG.ALLOWED_HOSTS = ['images.example.com'];
+    const lookup = vi.spyOn(dns, 'lookup');
+
+    try {
+      const error = await expectRefused('http://other.example.com/photo.jpg');
+      expect(error.message).toBe('Host is not allowed');
+    } finally {
+      IMAGE_PROXY_CONFIG.ALLOWED_HOSTS = allowedHosts;
+    }
+    expect(lookup).not.toHaveBeenCalled();
+  });
+
+  it('refuses public hostnames whose DNS answer is private', async () => {
+    vi.spyOn(dns, 'lookup').mockImplementation(((_hostname: string, _options: unknown, callback: (...args: unknown[]) => void) => {
+      callback(null, [{ address: '127.0.0.1', family: 4 }]);
+    }) as unknown as typeof dns.lookup);
+
+    await expectRefused(`http://rebind.example:${internal.port}/`);
+    expect(internal.hits).toBe(0);
+  });
+
+  describe('redirects', () => {
+    let redirector: TestServer;
+    let location: string;
+
+    beforeEach(async () => {
+      redirector = await startServer((_, response) => {
+        response.writeHead(302, { Location: location });
+        response.end();
+      });
+
+      // The first hop plays a public host: connect it to the local redirector, bypassing the checks
+      const realGet = http.get;
+      vi.spyOn(http, 'get').mockImplementationOnce(((_url: URL, _options: http.RequestOptions, callback: (response: http.IncomingMessage) => void) =>
+        realGet(`http://127.0.0.1:${redirector.port}/`, { agent: false }, callback)
+      ) as unknown as typeof http.get);
+    });
+
+    afterEach(async () => {
+      await redirector.close();
+    });
+
+    it('refuses a redirect from a public host to an internal address', async () => {
+      location = `http://127.0.0.1:${internal.port}/secret`;
+
+      await expectRefused('http://images.example/photo.jpg');
+      expect(redirector.hits).toBe(1);
+      expect(internal.hits).toBe(0);
+    });
+
+    it('refuses a redirect to a host outside the allowlist', async () => {
+      const allowedHosts = IMAGE_PROXY_CONFIG.ALLOWED_HOSTS;
+      IMAGE_PROXY_CONFIG.ALLOWED_HOSTS = ['*.example.com'];
+      location = `http://elsewhere.test:${internal.port}/secret`;
+
+      try {
+        const error = await expectRefused('http://images.example.com/photo.jpg');
+        expect(error.message).toBe('Host is not allowed');
+      } finally {
+        IMAGE_PROXY_CONFIG.ALLOWED_HOSTS = allowedHosts;
+      }
+      expect(redirector.hits).toBe(1);
+      expect(internal.hits).toBe(0);
+    });
+
+    it('refuses a redirect to a hostname that resolves internally', async () => {
+      location = `http://internal.example:${internal.port}/secret`;
+      vi.spyOn(dns, 'lookup').mockImplementation(((_hostname: string, _options: unknown, callback: (...args: unknown[]) => void) => {
+        callback(null, [{ address: '10.0.0.5', family: 4 }]);
+      }) as unknown as typeof dns.lookup);
+
+      await expectRefused('http://images.example/photo.jpg');
+      expect(redirector.hits).toBe(1);
+      expect(internal.hits).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import dns from 'node:dns';
+import http from 'node:http';
+import https from 'node:https';
+import net from 'node:net';
+import { IMAGE_PROXY_CONFIG } from '@/config/imageProxy';
+
+// Server-side fetching of user supplied URLs without exposing internal services (SSRF).
+//
+// Every hostname is resolved through a custom `lookup` that refuses private, loopback,
+// link-local and other non-public addresses, and the connection is made to exactly the address
+// that was checked, so DNS rebinding can't swap in an internal one afterwards. Redirects are
+// followed by hand and each hop goes through the same checks.
+
+export class ImageProxyError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ImageProxyError';
+  }
+}
+
+// Everything that isn't globally routable unicast. IPv4 rules also match IPv4-mapped IPv6
+// addresses (::ffff:127.0.0.1).
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [subnet, prefix] of [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8], // RFC 1918
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local, including cloud metadata at 169.254.169.254
+  ['172.16.0.0', 12], // RFC 1918
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.0.2.0', 24], // documentation
+  ['192.88.99.0', 24], // 6to4 relay anycast
+  ['192.168.0.0', 16], // RFC 1918
+  ['198.18.0.0', 15], // benchmarking
+  ['198.51.100.0', 24], // documentation
+  ['203.0.113.0', 24], // documentation
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved and broadcast
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(subnet, prefix, 'ipv4');
+}
+for (const [subnet, prefix] of [
+  ['::', 96], // unspecified, loopback and IPv4-compatible (::127.0.0.1), which some stacks route as IPv4
+  ['64:ff9b::', 96], // NAT64, can reach IPv4 private ranges
+  ['100::', 64], // discard
+  ['2001:db8::', 32], // documentation
+  ['2002::', 16], // 6to4, embeds arbitrary IPv4
+  ['fc00::', 7], // unique local
+  ['fe80::', 10], // link-local
+  ['ff00::', 8], // multicast
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(subnet, prefix, 'ipv6');
+}
+
+export function isBlockedAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  return BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+export function isHostAllowed(hostname: string, allowedHosts: string[] = IMAGE_PROXY_CONFIG.ALLOWED_HOSTS): boolean {
+  if (allowedHosts.length === 0) return true;
+
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  return allowedHosts.some(allowed => {
+    if (allowed.startsWith('*.')) {
+      const domain = allowed.slice(2);
+      return host === domain || host.endsWith(`.${domain}`);
+    }
+    return host === allowed;
+  });
+}
+
+// Drop-in for dns.lookup that fails when any resolved address is not public
+const safeLookup = ((hostname: string, options: dns.LookupOptions, callback: (...args: unknown[]) => void) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error);
+      return;
+    }
+    if (addresses.length === 0 || addresses.some(entry => isBlockedAddress(entry.address))) {
+      callback(new ImageProxyError('URL resolves to a disallowed address', 403));
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}) as net.LookupFunction;
+
+// Checks that don't need DNS: scheme, allowlist and literal IP hosts (which skip `lookup`)
+export function assertPublicUrl(url: URL): void {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new ImageProxyError('Only HTTP and HTTPS URLs are allowed', 400);
+  }
+  if (url.username || url.password) {
+    throw new ImageProxyError('URLs with credentials are not allowed', 400);
+  }
+
+  // IPv6 literals keep their brackets in URL.hostname
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (!isHostAllowed(hostname)) {
+    throw new ImageProxyError('Host is not allowed', 403);
+  }
+  if (net.isIP(hostname) && isBlockedAddress(hostname)) {
+    throw new ImageProxyError('URL resolves to a disallowed address', 403);
+  }
+}
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+export interface PublicRequestOptions {
+  headers?: http.OutgoingHttpHeaders;
+  // Aborts the request, and the response body if it is still streaming
+  signal?: AbortSignal;
+}
+
+function get(url: URL, { headers, signal }: PublicRequestOptions): Promise<http.IncomingMessage> {
+  const client = url.protocol === 'https:' ? https : http;
+  return new Promise((resolve, reject) => {
+    const request = client.get(url, {
+      headers,
+      signal,
+      lookup: safeLookup,
+      // A shared keep-alive socket could have been opened for a different, earlier lookup
+      agent: false,
+    }, resolve);
+    request.on('error', (error) => {
+      reject(signal?.aborted ? new ImageProxyError('Upstream request timed out', 504) : error);
+    });
+  });
+}
+
+export interface PublicResponse {
+  response: http.IncomingMessage;
+  // Where the body actually came from, after redirects
+  url: URL;
+}
+
+// GETs a public URL, following up to MAX_REDIRECTS redirects. Throws ImageProxyError when the
+// URL, or any URL it redirects to, is not allowed.
+export async function fetchPublicUrl(
+  input: string | URL,
+  options: PublicRequestOptions = {}
+): Promise<PublicResponse> {
+  let url = new URL(input);
+
+  for (let hop = 0; ; hop++) {
+    assertPublicUrl(url);
+    const response = await get(url, options);
+
+    const location = response.headers.location;
+    if (!REDIRECT_STATUSES.includes(response.statusCode ?? 0) || !location) {
+      return { response, url };
+    }
+
+    // Discard the redirect body so the socket is released
+    response.resume();
+    if (hop >= IMAGE_PROXY_CONFIG.MAX_REDIRECTS) {
+      throw new ImageProxyError('Too many redirects', 502);
+    }
+    url = new URL(location, url);
+  }
+}
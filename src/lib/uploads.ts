@@ -0,0 +1,98 @@
+import { API_CONFIG, ApiResponse, UploadSession } from '@/config/api';
+import apiClient from '@/lib/api';
+import { sleep } from '@/lib/network';
+
+// Resumable file uploads. A file is sent to an upload session in chunks; when a chunk fails
+// because the connection dropped (or the server hiccuped), the session is asked how many bytes
+// it actually stored and sending carries on from there rather than from the start. Sessions
+// outlive a cancelled or failed attempt, so passing the upload id back in resumes it too.
+
+// Worth re-syncing the offset and trying again: no response at all, a timeout, an offset the
+// server disagrees with, rate limiting, or a server error
+const RESUMABLE_STATUSES = [0, 408, 409, 416, 429];
+
+function isResumable(status: number = 0): boolean {
+  return RESUMABLE_STATUSES.includes(status) || status >= 500;
+}
+
+// Set once the API turns out not to have upload sessions at all; posts then go up as one
+// multipart request (see createPostWithFile)
+let sessionsUnsupported = false;
+
+export function resumableUploadsAvailable(): boolean {
+  return !sessionsUnsupported;
+}
+
+export interface ResumableUploadOptions {
+  // Session from an earlier, interrupted attempt
+  uploadId?: string;
+  signal?: AbortSignal;
+  // Bytes of this file the server has, including the chunk in flight
+  onProgress?: (loaded: number, total: number) => void;
+  // Called once the session exists, so callers can keep the id to resume later
+  onSession?: (uploadId: string) => void;
+}
+
+async function openSession(file: File, uploadId: string | undefined, signal?: AbortSignal): Promise<ApiResponse<UploadSession>> {
+  if (uploadId) {
+    const existing = await apiClient.getUpload(uploadId, { signal });
+    if (existing.success && existing.data && existing.data.upload.size === file.size) {
+      return { ...existing, data: existing.data.upload };
+    }
+    // Expired or not this file any more: start over below
+    if (signal?.aborted) return { success: false, status: 0, message: existing.message };
+  }
+
+  const created = await apiClient.createUpload({
+    filename: file.name,
+    size: file.size,
+    type: file.type,
+  }, { signal });
+  if (created.status === 404 || created.status === 405) {
+    sessionsUnsupported = true;
+  }
+  return { ...created, data: created.data?.upload };
+}
+
+export async function uploadResumable(file: File, options: ResumableUploadOptions = {}): Promise<ApiResponse<UploadSession>> {
+  const { signal, onProgress, onSession } = options;
+
+  const opened = await openSession(file, options.uploadId, signal);
+  if (!opened.success || !opened.data) return opened;
+
+  let session = opened.data;
+  onSession?.(session.upload_id);
+  onProgress?.(session.received, file.size);
+
+  let failures = 0;
+  while (session.received < file.size) {
+    const offset = session.received;
+    const chunk = file.slice(offset, offset + API_CONFIG.UPLOAD.CHUNK_SIZE);
+    const result = await apiClient.uploadChunk(session.upload_id, chunk, offset, file.size, {
+      signal,
+      onUploadProgress: ({ loaded }) => onProgress?.(offset + loaded, file.size),
+    });
+
+    if (result.success && result.data) {
+      session = result.data.upload;
+      failures = 0;
+      onProgress?.(session.received, file.size);
+      continue;
+    }
+
+    if (signal?.aborted || !isResumable(result.status) || ++failures > API_CONFIG.UPLOAD.MAX_RESUME_ATTEMPTS) {
+      return { ...result, data: undefined };
+    }
+
+    // Exponential backoff, then pick up from whatever the server stored
+    await sleep(Math.min(API_CONFIG.RETRY.BASE_DELAY * 2 ** (failures - 1), API_CONFIG.RETRY.MAX_DELAY), signal);
+    if (signal?.aborted) return { success: false, status: 0, message: 'Upload cancelled' };
+    const status = await apiClient.getUpload(session.upload_id, { signal });
+    if (status.success && status.data) {
+      session = status.data.upload;
+      onProgress?.(session.received, file.size);
+    }
+  }
+
+  return { success: true, data: session, status: 200 };
+}
@@ -0,0 +1,63 @@
+import { TransportOptions } from '@/lib/interceptors';
+
+// fetch can't report upload progress, so requests that ask for it go through XMLHttpRequest and
+// are wrapped back into a Response for the rest of the pipeline.
+
+// Bodies are forbidden on these statuses when constructing a Response
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+function parseHeaders(raw: string): Headers {
+  const headers = new Headers();
+  for (const line of raw.trim().split(/[\r\n]+/)) {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      headers.append(line.slice(0, separator).trim(), line.slice(separator + 1).trim());
+    }
+  }
+  return headers;
+}
+
+export function xhrTransport(url: string, init: RequestInit, options: TransportOptions = {}): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const { signal } = init;
+    if (signal?.aborted) {
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open(init.method || 'GET', url);
+    new Headers(init.headers).forEach((value, key) => xhr.setRequestHeader(key, value));
+
+    if (options.onUploadProgress) {
+      const onUploadProgress = options.onUploadProgress;
+      xhr.upload.onprogress = (event) => {
+        onUploadProgress({ loaded: event.loaded, total: event.lengthComputable ? event.total : 0 });
+      };
+    }
+
+    const onAbort = () => xhr.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const cleanup = () => signal?.removeEventListener('abort', onAbort);
+
+    xhr.onload = () => {
+      cleanup();
+      resolve(new Response(NULL_BODY_STATUSES.includes(xhr.status) ? null : xhr.responseText, {
+        status: xhr.status,
+        statusText: xhr.statusText,
+        headers: parseHeaders(xhr.getAllResponseHeaders()),
+      }));
+    };
+    // Same shape as fetch's failures so normalizeErrorInterceptor treats both alike
+    xhr.onerror = () => {
+      cleanup();
+      reject(new TypeError('Network request failed'));
+    };
+    xhr.onabort = () => {
+      cleanup();
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+    };
+
+    xhr.send((init.body ?? null) as XMLHttpRequestBodyInit | null);
+  });
+}
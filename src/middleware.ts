@@ -5,7 +5,7 @@ import type { NextRequest } from 'next/server';
 const publicRoutes = ['/login', '/register'];
 
 // Protected routes that require authentication
-const protectedRoutes = ['/dashboard'];
+const protectedRoutes = ['/dashboard', '/post', '/users', '/settings', '/notifications', '/tags', '/search', '/scheduled'];
 
 export function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;